@@ -1,184 +1,1282 @@
-import type { AgentConfig } from "./config.js";
+import {
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+  ErrorCode,
+  ListRootsResultSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import type {
+  ListRootsResult,
+  Progress,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { AgentConfig, PolicyConfig, ServerProfile } from "./config.js";
+import { serverProfiles } from "./config.js";
 import type { EndpointConfig } from "./local-client.js";
-import { LocalClient } from "./local-client.js";
+import { connectionKey, LocalClient } from "./local-client.js";
+import { confirmToolCall, ToolPolicy } from "./policy.js";
+import { AuditLog } from "./audit.js";
+import { AgentMetrics } from "./metrics.js";
+import { HealthServer } from "./health-server.js";
+import { LocalMcpServer, type LocalToolEntry } from "./local-server.js";
 import { AgentTunnel } from "./tunnel.js";
+import { Logger } from "./logger.js";
+import { PayloadCrypto } from "./e2e.js";
+import { CircuitOpenError } from "./circuit-breaker.js";
+import {
+  CallQueue,
+  CallQueueBusyError,
+  DEFAULT_CALL_QUEUE_LIMITS,
+} from "./call-queue.js";
+import type {
+  PromptGetPayload,
+  ResourceReadPayload,
+  ResultEvent,
+  ServerRequestKind,
+  ToolCallPayload,
+  ToolCancelPayload,
+  ToolErrorCode,
+} from "./tunnel.js";
+
+type ToolCallOutcome =
+  { result: unknown } | { error: string; code?: ToolErrorCode };
+
+interface ToolCallOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: Progress) => void;
+  /** Server the call was tunneled from; unset for the local MCP server */
+  server?: ServerConnection;
+}
+
+export interface AgentOptions {
+  /** Serve the aggregated MCP server over this process's stdio */
+  stdio?: boolean;
+  /** Called when the agent cannot work at all, e.g. every server requires a newer agent */
+  onFatal?: (error: Error) => void;
+}
+
+/** One MCP Central server profile and its tunnel. */
+interface ServerConnection {
+  /** Replaced, along with the tunnel, when a reload changes the profile */
+  profile: ServerProfile;
+  tunnel: AgentTunnel;
+  joined: boolean;
+  /** Enabled endpoints pushed by this server, keyed by endpoint id */
+  readonly endpoints: Map<string, EndpointConfig>;
+  /** Keys for signed calls and sealed results; null unless `e2e` is enabled */
+  crypto: Promise<PayloadCrypto> | null;
+  /** Replay cache of `crypto`, kept when a reload replaces it */
+  readonly seen: Map<string, number>;
+}
+
+/** An endpoint as one server knows it. */
+interface EndpointRoute {
+  server: ServerConnection;
+  endpoint: EndpointConfig;
+}
+
+/** Matches the SDK's DEFAULT_REQUEST_TIMEOUT_MSEC. */
+const DEFAULT_TOOL_CALL_TIMEOUT_MS = 60_000;
+
+/** Config fields read once at startup — changing them needs a restart. */
+const RESTART_REQUIRED_FIELDS = [
+  "concurrency",
+  "restart",
+  "metrics",
+  "localServer",
+  "outbox",
+  "results",
+  "e2e",
+  "healthCheck",
+  "secretsFile",
+] as const;
+
+/** Queue depth changes are coalesced into one `queueStatus` per interval. */
+const QUEUE_STATUS_INTERVAL_MS = 250;
 
 // ── McpCentralAgent ──────────────────────────────────────────────────────
 
+/**
+ * Connects to one or more MCP Central servers, one tunnel per server profile.
+ * Endpoints with identical connection settings share one `LocalClient`, and
+ * every request is answered over the tunnel it came from.
+ */
 export class McpCentralAgent {
-  private readonly _config: AgentConfig;
-  private readonly _tunnel: AgentTunnel;
+  private _config: AgentConfig;
+  private readonly _servers: ServerConnection[];
+  /** Clients keyed by `connectionKey()`, shared by identical endpoints */
   private readonly _clients = new Map<string, LocalClient>();
+  /** In-flight tool calls keyed by `_callKey()`, so they can be cancelled. */
+  private readonly _inFlight = new Map<string, AbortController>();
+  /** Endpoints from the local config — owned by the agent, not the servers. */
+  private readonly _localEndpoints = new Map<string, EndpointConfig>();
+  private _policy: ToolPolicy;
+  private _audit: AuditLog;
+  private readonly _metrics: AgentMetrics;
+  private readonly _healthServer: HealthServer | null;
+  private readonly _localServer: LocalMcpServer | null;
+  private readonly _stdio: boolean;
+  private readonly _onFatal: ((error: Error) => void) | undefined;
+  private readonly _callQueue: CallQueue;
+  private readonly _log = new Logger("McpCentralAgent");
+  /** Endpoints whose queue depth changed since the last `queueStatus` */
+  private readonly _queueStatusPending = new Set<string>();
+  private _queueStatusTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, options: AgentOptions = {}) {
     this._config = config;
-    this._tunnel = new AgentTunnel(config, {
-      onEndpoints: (endpoints) => this._syncEndpoints(endpoints),
-      onEndpointAdd: (endpoint) => this._addEndpoint(endpoint),
-      onEndpointRemove: (endpointId) => this._removeEndpoint(endpointId),
-      onEndpointToggle: (endpointId, isEnabled) =>
-        this._toggleEndpoint(endpointId, isEnabled),
-      onEndpointUpdate: (endpoint) => this._updateEndpoint(endpoint),
-      onEndpointRefresh: (endpointId) => this._refreshEndpoint(endpointId),
-      onToolCall: (payload) => this._handleToolCall(payload),
+    this._stdio = options.stdio ?? false;
+    this._onFatal = options.onFatal;
+    this._policy = this._createPolicy(config.policy);
+    this._audit = new AuditLog(config.audit);
+    this._callQueue = new CallQueue(
+      config.concurrency ?? DEFAULT_CALL_QUEUE_LIMITS,
+      (endpointId) => this._queueDepthChanged(endpointId),
+    );
+    this._healthServer = config.metrics?.enabled
+      ? new HealthServer(config.metrics, {
+          ready: () => this._readiness(),
+          metrics: () => this._metrics.render(),
+        })
+      : null;
+    this._localServer =
+      this._stdio || config.localServer?.enabled
+        ? new LocalMcpServer({
+            tools: () => this._localTools(),
+            callTool: (endpointId, toolName, args, options) =>
+              this._runToolCall(
+                { callId: randomUUID(), endpointId, toolName, args },
+                options,
+              ),
+          })
+        : null;
+    const profiles = serverProfiles(config);
+    this._metrics = new AgentMetrics(profiles.map((p) => p.name));
+    this._servers = profiles.map((profile) => this._createServer(profile));
+  }
+
+  private _createServer(profile: ServerProfile): ServerConnection {
+    const seen = new Map<string, number>();
+    const server: ServerConnection = {
+      profile,
+      joined: false,
+      endpoints: new Map(),
+      tunnel: this._createTunnel(profile, () => server),
+      crypto: this._loadCrypto(profile, seen),
+      seen,
+    };
+    return server;
+  }
+
+  /** Loaded up front so a missing or bad key is reported at startup. */
+  private _loadCrypto(
+    profile: ServerProfile,
+    seen: Map<string, number>,
+  ): Promise<PayloadCrypto> | null {
+    const e2e = this._config.e2e;
+    if (!e2e?.enabled) return null;
+    const crypto = PayloadCrypto.load(
+      e2e.privateKeyFile,
+      profile.serverPublicKeyFile ?? "",
+      {
+        agentName: profile.agentName,
+        maxClockSkewMs: e2e.maxClockSkewMs,
+        seen,
+      },
+    );
+    crypto.catch((err) => {
+      this._log.error("Cannot load e2e keys — server events will be rejected", {
+        server: profile.name,
+        error: err,
+      });
     });
+    return crypto;
   }
 
-  /** Start the agent: connect tunnel and wait for endpoint list. */
-  start(): void {
-    console.log(
-      `[McpCentralAgent] Starting agent '${this._config.agentName}'…`,
+  /** `server` is a getter since the connection may not exist yet. */
+  private _createTunnel(
+    profile: ServerProfile,
+    server: () => ServerConnection,
+  ): AgentTunnel {
+    return new AgentTunnel(
+      profile,
+      {
+        onJoined: () => {
+          server().joined = true;
+          this._metrics.setTunnelConnected(profile.name, true);
+          this._announceLocalEndpoints(server());
+        },
+        onDisconnected: () => {
+          server().joined = false;
+          this._metrics.setTunnelConnected(profile.name, false);
+        },
+        onIncompatible: (message) => {
+          if (this._servers.every((s) => s.tunnel.incompatible)) {
+            this._onFatal?.(
+              new Error(`No MCP Central server accepts this agent: ${message}`),
+            );
+          }
+        },
+        onReconnectAttempt: () =>
+          this._metrics.tunnelReconnectAttempt(profile.name),
+        onEndpoints: (endpoints) => this._syncEndpoints(server(), endpoints),
+        onEndpointAdd: (endpoint) => {
+          if (!this._isLocalEndpoint(endpoint.id)) {
+            this._setEndpoint(server(), endpoint);
+          }
+        },
+        onEndpointRemove: (endpointId) => {
+          if (!this._isLocalEndpoint(endpointId)) {
+            this._removeEndpoint(server(), endpointId);
+          }
+        },
+        onEndpointToggle: (endpointId, isEnabled) => {
+          if (!this._isLocalEndpoint(endpointId)) {
+            this._toggleEndpoint(server(), endpointId, isEnabled);
+          }
+        },
+        onEndpointUpdate: (endpoint) => {
+          if (!this._isLocalEndpoint(endpoint.id)) {
+            this._setEndpoint(server(), endpoint);
+          }
+        },
+        onEndpointRefresh: (endpointId) =>
+          this._refreshEndpoint(server(), endpointId),
+        onToolCall: (payload) => this._handleToolCall(server(), payload),
+        onToolCancel: (payload) => this._cancelToolCall(server(), payload),
+        onResourceRead: (payload) =>
+          this._handleResourceRead(server(), payload),
+        onPromptGet: (payload) => this._handlePromptGet(server(), payload),
+        verifyEvent: (event, payload) =>
+          this._checkSignature(server(), event, payload),
+      },
+      this._config.outbox,
+      this._config.results,
+      this._config.e2e?.enabled ?? false,
     );
-    console.log(`[McpCentralAgent] Connecting to ${this._config.serverUrl}…`);
-    this._tunnel.connect();
+  }
+
+  /** Start the agent: connect the tunnels and wait for endpoint lists. */
+  start(): void {
+    this._log.info("Starting agent…");
+    for (const endpoint of this._config.endpoints ?? []) {
+      this._localEndpoints.set(endpoint.id, endpoint);
+      if (!endpoint.isEnabled) {
+        this._log.info(`Endpoint '${endpoint.name}' is disabled — skipping`, {
+          endpoint: endpoint.id,
+        });
+        continue;
+      }
+      this._settle(connectionKey(endpoint));
+    }
+    for (const { profile, tunnel } of this._servers) {
+      this._log.info(
+        `Connecting to ${profile.serverUrl} as '${profile.agentName}'…`,
+        { server: profile.name },
+      );
+      tunnel.connect();
+    }
+    this._healthServer?.start().catch((err) => {
+      this._log.error("Failed to start health server", { error: err });
+    });
+    if (this._stdio) {
+      this._localServer?.connectStdio().catch((err) => {
+        this._log.error("Failed to serve MCP over stdio", { error: err });
+      });
+    }
+    if (this._config.localServer?.enabled) {
+      this._localServer?.listen(this._config.localServer).catch((err) => {
+        this._log.error("Failed to start local MCP server", { error: err });
+      });
+    }
   }
 
   /** Gracefully stop the agent. */
   async stop(): Promise<void> {
-    console.log(`[McpCentralAgent] Stopping…`);
-    for (const [id, client] of this._clients) {
+    this._log.info("Stopping…");
+    for (const controller of this._inFlight.values()) {
+      controller.abort("Agent is shutting down");
+    }
+    for (const [key, client] of this._clients) {
+      this._clients.delete(key);
       await client.disconnect();
-      this._clients.delete(id);
     }
-    this._tunnel.disconnect();
+    if (this._queueStatusTimer) clearTimeout(this._queueStatusTimer);
+    this._queueStatusTimer = null;
+    for (const { tunnel } of this._servers) tunnel.disconnect();
+    await this._localServer?.stop();
+    await this._healthServer?.stop();
+    await this._audit.flush();
+  }
+
+  // ── Config reload ────────────────────────────────────────────────────
+
+  /**
+   * Applies a reloaded config to the running agent. Only what changed is
+   * touched: a server profile with a new URL, name or key gets a new tunnel,
+   * edited local endpoints are reconnected, and the policy and audit log are
+   * rebuilt. Settings read once at startup are reported as needing a restart.
+   */
+  applyConfig(config: AgentConfig): void {
+    const previous = this._config;
+    const policyChanged = !sameJson(previous.policy, config.policy);
+    // Before anything is applied, so a rejected config changes nothing
+    const policy = policyChanged
+      ? this._createPolicy(config.policy)
+      : this._policy;
+    this._config = config;
+
+    if (policyChanged) {
+      this._policy = policy;
+      for (const key of this._clients.keys()) {
+        const client = this._clients.get(key);
+        if (!client?.hasSession) continue;
+        for (const route of this._routes(key)) {
+          this._announceTools(route, client.tools);
+        }
+      }
+      this._localServer?.toolsChanged();
+    }
+    if (!sameJson(previous.audit, config.audit)) {
+      const audit = this._audit;
+      this._audit = new AuditLog(config.audit);
+      audit.flush().catch(() => {});
+    }
+    this._applyLocalEndpoints(config.endpoints ?? []);
+    this._applyServerProfiles(serverProfiles(config));
+
+    const restartRequired = RESTART_REQUIRED_FIELDS.filter(
+      (field) => !sameJson(previous[field], config[field]),
+    );
+    if (restartRequired.length > 0) {
+      this._log.warn(
+        `Restart the agent to apply changes to: ${restartRequired.join(", ")}`,
+      );
+    }
+    this._log.info("Config reloaded");
+  }
+
+  /**
+   * With `--stdio` stdin carries MCP, so nobody could answer a `confirm`
+   * prompt — such a policy is refused instead of silently denying.
+   */
+  private _createPolicy(config: PolicyConfig | undefined): ToolPolicy {
+    const policy = new ToolPolicy(config);
+    if (this._stdio && policy.hasConfirmRules) {
+      throw new Error(
+        "Policy rules with action 'confirm' can't be answered with --stdio, " +
+          "since stdin carries MCP — use 'allow' or 'deny' instead",
+      );
+    }
+    return policy;
+  }
+
+  private _applyLocalEndpoints(endpoints: EndpointConfig[]): void {
+    const incoming = new Map(endpoints.map((e) => [e.id, e]));
+    const keys = new Set<string>();
+    let changed = false;
+
+    for (const [id, endpoint] of this._localEndpoints) {
+      const updated = incoming.get(id);
+      if (updated && sameJson(updated, endpoint)) continue;
+      changed = true;
+      if (endpoint.isEnabled) keys.add(connectionKey(endpoint));
+      if (updated?.isEnabled) continue;
+      if (!updated) this._localEndpoints.delete(id);
+      // Sent here since a client shared with other endpoints stays connected
+      for (const server of this._servers) {
+        server.tunnel.sendStatusUpdate(id, "disconnected");
+      }
+    }
+    for (const endpoint of endpoints) {
+      const current = this._localEndpoints.get(endpoint.id);
+      if (current && sameJson(current, endpoint)) continue;
+      changed = true;
+      this._localEndpoints.set(endpoint.id, endpoint);
+      if (endpoint.isEnabled) keys.add(connectionKey(endpoint));
+      // A new local endpoint takes over a server endpoint with the same id
+      for (const server of this._servers) {
+        const shadowed = server.endpoints.get(endpoint.id);
+        if (!shadowed) continue;
+        server.endpoints.delete(endpoint.id);
+        keys.add(connectionKey(shadowed));
+      }
+    }
+    if (!changed) return;
+
+    for (const key of keys) this._settle(key);
+    for (const server of this._servers) {
+      if (server.joined) this._announceLocalEndpoints(server, true);
+    }
+  }
+
+  private _applyServerProfiles(profiles: ServerProfile[]): void {
+    const incoming = new Map(profiles.map((p) => [p.name, p]));
+
+    for (const server of [...this._servers]) {
+      const { name } = server.profile;
+      const profile = incoming.get(name);
+      if (profile && sameJson(profile, server.profile)) continue;
+
+      server.tunnel.disconnect();
+      server.joined = false;
+      if (!profile) {
+        this._servers.splice(this._servers.indexOf(server), 1);
+        this._metrics.removeServer(name);
+        for (const endpoint of server.endpoints.values()) {
+          this._settle(connectionKey(endpoint));
+        }
+        this._log.info("Server removed — tunnel closed", { server: name });
+        continue;
+      }
+
+      // Endpoints are kept until the new tunnel's join brings their list
+      server.profile = profile;
+      server.tunnel = this._createTunnel(profile, () => server);
+      server.crypto = this._loadCrypto(profile, server.seen);
+      this._metrics.setTunnelConnected(name, false);
+      this._log.info(
+        `Server settings changed — reconnecting to ${profile.serverUrl} as '${profile.agentName}'…`,
+        { server: name },
+      );
+      server.tunnel.connect();
+    }
+
+    for (const profile of profiles) {
+      if (this._servers.some((s) => s.profile.name === profile.name)) continue;
+      const server = this._createServer(profile);
+      this._servers.push(server);
+      this._metrics.setTunnelConnected(profile.name, false);
+      this._log.info(
+        `Server added — connecting to ${profile.serverUrl} as '${profile.agentName}'…`,
+        { server: profile.name },
+      );
+      server.tunnel.connect();
+    }
   }
 
   // ── Endpoint lifecycle ───────────────────────────────────────────────
 
-  private _syncEndpoints(endpoints: EndpointConfig[]): void {
-    // Remove clients no longer in the list
+  private _syncEndpoints(
+    server: ServerConnection,
+    endpoints: EndpointConfig[],
+  ): void {
+    // Remove endpoints no longer in the list (locally-defined ones are kept)
     const incoming = new Set(endpoints.map((e) => e.id));
-    for (const id of this._clients.keys()) {
-      if (!incoming.has(id)) {
-        this._removeEndpoint(id);
-      }
+    for (const id of [...server.endpoints.keys()]) {
+      if (!incoming.has(id)) this._removeEndpoint(server, id);
     }
-    // Add/update endpoints
+    // Add/update endpoints — edits made while we were offline arrive here
     for (const ep of endpoints) {
-      if (ep.isEnabled) {
-        if (this._clients.has(ep.id)) {
-          // Already connected — nothing to do unless config changed
-        } else {
-          this._addEndpoint(ep);
-        }
+      if (this._localEndpoints.has(ep.id)) continue;
+      if (ep.isEnabled || server.endpoints.has(ep.id)) {
+        this._setEndpoint(server, ep);
       }
     }
   }
 
-  private _addEndpoint(endpoint: EndpointConfig): void {
+  /**
+   * Announces the locally-defined endpoints after each join, then replays
+   * their status and catalogs since the server has no record of them.
+   * `always` announces an empty list too, after a reload removed the last.
+   */
+  private _announceLocalEndpoints(
+    server: ServerConnection,
+    always = false,
+  ): void {
+    const endpoints = [...this._localEndpoints.values()];
+    if (endpoints.length === 0 && !always) return;
+    server.tunnel.announceLocalEndpoints(endpoints);
+    for (const endpoint of endpoints) {
+      if (!endpoint.isEnabled) continue;
+      const client = this._clients.get(connectionKey(endpoint));
+      if (client) this._replay({ server, endpoint }, client);
+    }
+  }
+
+  /**
+   * Server-pushed changes never touch locally-defined endpoints; a server
+   * endpoint reusing a local id is ignored.
+   */
+  private _isLocalEndpoint(endpointId: string): boolean {
+    if (!this._localEndpoints.has(endpointId)) return false;
+    this._log.warn("Ignoring server change to locally-defined endpoint", {
+      endpoint: endpointId,
+    });
+    return true;
+  }
+
+  /**
+   * Adds or updates a server endpoint. Only connection settings changes
+   * reconnect; name/namespace edits are applied to the live client so its
+   * session is kept.
+   */
+  private _setEndpoint(
+    server: ServerConnection,
+    endpoint: EndpointConfig,
+  ): void {
     if (!endpoint.isEnabled) {
-      console.log(
-        `[McpCentralAgent] Endpoint '${endpoint.name}' is disabled — skipping`,
+      this._removeEndpoint(server, endpoint.id);
+      return;
+    }
+
+    const previous = server.endpoints.get(endpoint.id);
+    server.endpoints.set(endpoint.id, endpoint);
+    const key = connectionKey(endpoint);
+    const previousKey = previous && connectionKey(previous);
+    if (previousKey && previousKey !== key) {
+      this._log.info(
+        `Endpoint '${endpoint.name}' connection settings changed — reconnecting`,
+        { endpoint: endpoint.id, server: server.profile.name },
       );
+      this._settle(previousKey);
+    }
+
+    const existing = this._clients.get(key);
+    this._settle(key);
+    if (!existing) return; // A new client reports its own status
+
+    const route = { server, endpoint };
+    if (previousKey !== key) {
+      // Already running for another endpoint — catch this one up
+      this._replay(route, existing);
+    } else if (
+      previous?.namespace !== endpoint.namespace &&
+      existing.hasSession
+    ) {
+      // Policy rules match on namespace, so tool visibility may have changed
+      this._announceTools(route, existing.tools);
+    }
+  }
+
+  private _removeEndpoint(server: ServerConnection, endpointId: string): void {
+    const endpoint = server.endpoints.get(endpointId);
+    if (!endpoint) return;
+    server.endpoints.delete(endpointId);
+    // Sent here since a client shared with other endpoints stays connected
+    server.tunnel.sendStatusUpdate(endpointId, "disconnected");
+    this._settle(connectionKey(endpoint));
+    this._log.info("Endpoint removed", {
+      endpoint: endpointId,
+      server: server.profile.name,
+    });
+  }
+
+  private _toggleEndpoint(
+    server: ServerConnection,
+    endpointId: string,
+    isEnabled: boolean,
+  ): void {
+    if (!isEnabled) {
+      this._removeEndpoint(server, endpointId);
+    } else if (!server.endpoints.has(endpointId)) {
+      // Re-enable: we need the endpoint config — request a refresh
+      server.tunnel.sendStatusUpdate(endpointId, "connecting");
+      // The server will send agent:endpoint_refresh with the full config
+    }
+  }
+
+  private _refreshEndpoint(server: ServerConnection, endpointId: string): void {
+    const endpoint =
+      this._localEndpoints.get(endpointId) ?? server.endpoints.get(endpointId);
+    if (!endpoint?.isEnabled) return;
+    const key = connectionKey(endpoint);
+    const client = this._clients.get(key);
+    if (client) {
+      // If the client is still in its initial connecting phase (triggered by
+      // the agent:endpoints push that fires just before onAgentConnected),
+      // skip the refresh — it would create a redundant duplicate connection.
+      if (client.status === "connecting") return;
+      // Reconnect with the same config
+      this._clients.delete(key);
+      client.disconnect().catch(() => {});
+      this._settle(key);
+    }
+  }
+
+  /**
+   * Reconciles the client of a connection key with the endpoints using it:
+   * connects on first use, disconnects after the last one is gone, and
+   * otherwise keeps its metadata in line with one of them.
+   */
+  private _settle(key: string): void {
+    const endpoints = this._endpointsFor(key);
+    const client = this._clients.get(key);
+    if (endpoints.length === 0) {
+      if (!client) return;
+      this._clients.delete(key);
+      client.disconnect().catch(() => {});
+      this._metrics.removeEndpoint(client.endpointId);
+      this._localServer?.toolsChanged();
+      return;
+    }
+
+    const primary =
+      endpoints.find((e) => e.id === client?.endpointId) ?? endpoints[0];
+    if (!client) {
+      this._connectEndpoint(key, primary);
       return;
     }
 
-    const existing = this._clients.get(endpoint.id);
-    if (existing) {
-      // Replace existing client
-      existing.disconnect().catch(() => {});
-      this._clients.delete(endpoint.id);
+    const previous = client.config;
+    if (sameMetadata(previous, primary)) return;
+    client.updateConfig(primary);
+    this._log.info(`Endpoint '${primary.name}' updated`, {
+      endpoint: primary.id,
+    });
+    if (previous.id !== primary.id) this._metrics.removeEndpoint(previous.id);
+    this._metrics.setEndpointStatus(primary, client.status);
+    if (previous.namespace !== primary.namespace) {
+      this._localServer?.toolsChanged();
     }
+  }
 
-    const client = new LocalClient(endpoint, {
-      onToolsChanged: (tools) => {
-        this._tunnel.announceTools(endpoint.id, tools);
+  private _connectEndpoint(key: string, endpoint: EndpointConfig): void {
+    const client: LocalClient = new LocalClient(
+      endpoint,
+      {
+        onToolsChanged: (tools) => {
+          if (this._clients.get(key) !== client) return;
+          for (const route of this._routes(key)) {
+            this._announceTools(route, tools);
+          }
+          this._localServer?.toolsChanged();
+        },
+        onResourcesChanged: (resources, resourceTemplates) => {
+          if (this._clients.get(key) !== client) return;
+          for (const { server, endpoint } of this._routes(key)) {
+            server.tunnel.announceResources(
+              endpoint.id,
+              resources,
+              resourceTemplates,
+            );
+          }
+        },
+        onPromptsChanged: (prompts) => {
+          if (this._clients.get(key) !== client) return;
+          for (const { server, endpoint } of this._routes(key)) {
+            server.tunnel.announcePrompts(endpoint.id, prompts);
+          }
+        },
+        onCreateMessage: async (params) =>
+          CreateMessageResultSchema.parse(
+            await this._serverRequest(key, "sampling", params),
+          ),
+        onListRoots: () => this._listRoots(key),
+        onElicit: async (params) =>
+          ElicitResultSchema.parse(
+            await this._serverRequest(key, "elicitation", params),
+          ),
+        onStatusChanged: (status, error) => {
+          // A replaced/removed client still reports its final "disconnected"
+          if (this._clients.get(key) !== client) return;
+          for (const { server, endpoint } of this._routes(key)) {
+            server.tunnel.sendStatusUpdate(endpoint.id, status, error);
+          }
+          this._metrics.setEndpointStatus(client.config, status);
+        },
+        onReconnectScheduled: () =>
+          this._metrics.endpointReconnectAttempt(client.endpointId),
       },
-      onStatusChanged: (status, error) => {
-        this._tunnel.sendStatusUpdate(endpoint.id, status, error);
+      {
+        secrets: { secretsFile: this._config.secretsFile },
+        restart: this._config.restart,
+        oauth: this._config.oauth,
+        healthCheck: this._config.healthCheck,
       },
-    });
+    );
 
-    this._clients.set(endpoint.id, client);
+    this._clients.set(key, client);
     client.connect().catch((err) => {
-      console.error(
-        `[McpCentralAgent] Failed to connect '${endpoint.name}': ${String(err)}`,
-      );
+      this._log.error(`Failed to connect '${endpoint.name}'`, {
+        endpoint: endpoint.id,
+        error: err,
+      });
     });
   }
 
-  private _removeEndpoint(endpointId: string): void {
-    const client = this._clients.get(endpointId);
-    if (client) {
-      client.disconnect().catch(() => {});
-      this._clients.delete(endpointId);
-      console.log(`[McpCentralAgent] Endpoint ${endpointId} removed`);
+  /** Enabled endpoints using the client of `key`, local ones first. */
+  private _endpointsFor(key: string): EndpointConfig[] {
+    return [
+      ...this._localEndpoints.values(),
+      ...this._servers.flatMap((s) => [...s.endpoints.values()]),
+    ].filter((e) => e.isEnabled && connectionKey(e) === key);
+  }
+
+  /**
+   * Where updates of the client of `key` are sent: each server's endpoints
+   * using it, plus local endpoints, which every server is told about.
+   */
+  private _routes(key: string): EndpointRoute[] {
+    const local = [...this._localEndpoints.values()].filter(
+      (e) => e.isEnabled && connectionKey(e) === key,
+    );
+    return this._servers.flatMap((server) =>
+      [
+        ...local,
+        ...[...server.endpoints.values()].filter(
+          (e) => connectionKey(e) === key,
+        ),
+      ].map((endpoint) => ({ server, endpoint })),
+    );
+  }
+
+  /** Sends a client's current status and catalogs to one server. */
+  private _replay(route: EndpointRoute, client: LocalClient): void {
+    const { server, endpoint } = route;
+    server.tunnel.sendStatusUpdate(endpoint.id, client.status);
+    if (!client.hasSession) return;
+    this._announceTools(route, client.tools);
+    server.tunnel.announceResources(
+      endpoint.id,
+      client.resources,
+      client.resourceTemplates,
+    );
+    server.tunnel.announcePrompts(endpoint.id, client.prompts);
+  }
+
+  /** Announces tools, hiding those the local policy denies outright. */
+  private _announceTools(
+    { server, endpoint }: EndpointRoute,
+    tools: Tool[],
+  ): void {
+    server.tunnel.announceTools(
+      endpoint.id,
+      tools.filter((t) =>
+        this._policy.isToolVisible(endpoint.namespace, t.name),
+      ),
+    );
+  }
+
+  /** Policy-visible tools of connected endpoints for the local MCP server. */
+  private _localTools(): LocalToolEntry[] {
+    return [...this._clients.values()]
+      .filter((c) => c.hasSession)
+      .flatMap((c) =>
+        c.tools
+          .filter((tool) =>
+            this._policy.isToolVisible(c.config.namespace, tool.name),
+          )
+          .map((tool) => ({
+            endpointId: c.endpointId,
+            namespace: c.config.namespace,
+            tool,
+          })),
+      );
+  }
+
+  // ── Server → client requests ─────────────────────────────────────────
+
+  /**
+   * Forwards a request from a local server to MCP Central, over the tunnel
+   * of one of the endpoints using the client — a joined one if possible.
+   */
+  private _serverRequest(
+    key: string,
+    kind: ServerRequestKind,
+    params: unknown,
+  ): Promise<unknown> {
+    const routes = this._routes(key);
+    const route = routes.find((r) => r.server.joined) ?? routes[0];
+    if (!route) {
+      return Promise.reject(
+        new Error(`No MCP Central server to answer ${kind} requests`),
+      );
     }
+    return route.server.tunnel.request(kind, route.endpoint.id, params);
   }
 
-  private _toggleEndpoint(endpointId: string, isEnabled: boolean): void {
-    const client = this._clients.get(endpointId);
-    if (!isEnabled) {
-      if (client) {
-        client.disconnect().catch(() => {});
-        this._clients.delete(endpointId);
-        this._tunnel.sendStatusUpdate(endpointId, "disconnected");
-      }
+  /**
+   * Asks MCP Central for the roots of an endpoint, falling back to the
+   * `roots` from the local config when the server has none or can't answer.
+   */
+  private async _listRoots(key: string): Promise<ListRootsResult> {
+    const localRoots = this._config.roots ?? [];
+    try {
+      const result = ListRootsResultSchema.parse(
+        await this._serverRequest(key, "roots", {}),
+      );
+      if (result.roots.length > 0 || localRoots.length === 0) return result;
+    } catch (err) {
+      if (localRoots.length === 0) throw err;
+      this._log.warn("roots request failed, using local roots", {
+        error: err,
+      });
+    }
+    return { roots: localRoots };
+  }
+
+  // ── Health ───────────────────────────────────────────────────────────
+
+  /** Ready once every tunnel has joined; endpoint states are informational. */
+  private _readiness(): { ready: boolean; details: unknown } {
+    const ready = this._servers.every((s) => s.joined);
+    return {
+      ready,
+      details: {
+        tunnel: ready ? "joined" : "disconnected",
+        servers: this._servers.map((s) => ({
+          name: s.profile.name,
+          url: s.profile.serverUrl,
+          tunnel: s.tunnel.incompatible
+            ? "incompatible"
+            : s.joined
+              ? "joined"
+              : "disconnected",
+        })),
+        endpoints: [...this._clients.values()].map((c) => ({
+          id: c.endpointId,
+          name: c.config.name,
+          status: c.status,
+        })),
+      },
+    };
+  }
+
+  // ── Tool call handling ───────────────────────────────────────────────
+
+  private async _handleToolCall(
+    server: ServerConnection,
+    payload: ToolCallPayload,
+  ): Promise<void> {
+    const { callId } = payload;
+    if (this._inFlight.has(this._callKey(callId, server))) {
+      // A redelivered call — the one already running answers this id
+      this._log.warn(`Ignoring duplicate tool call ${callId}`, {
+        endpoint: payload.endpointId,
+        server: server.profile.name,
+      });
+      return;
+    }
+    const outcome = await this._runToolCall(payload, {
+      server,
+      onProgress: (progress) =>
+        server.tunnel.sendToolProgress(callId, progress),
+    });
+    if (server.crypto) {
+      await this._sendSealedOutcome(server, "toolResult", callId, outcome);
+    } else if ("error" in outcome) {
+      server.tunnel.sendToolError(callId, outcome.error, outcome.code);
     } else {
-      if (!client) {
-        // Re-enable: we need the endpoint config — request a refresh
-        this._tunnel.sendStatusUpdate(endpointId, "connecting");
-        // The server will send agent:endpoint_refresh with the full config
-      }
+      server.tunnel.sendToolResult(callId, outcome.result);
     }
   }
 
-  private _updateEndpoint(endpoint: EndpointConfig): void {
-    // Reconnect with updated config
-    this._removeEndpoint(endpoint.id);
-    if (endpoint.isEnabled) {
-      this._addEndpoint(endpoint);
+  private async _sendSealedOutcome(
+    server: ServerConnection,
+    event: ResultEvent,
+    callId: string,
+    outcome: ToolCallOutcome,
+  ): Promise<void> {
+    let crypto: PayloadCrypto;
+    try {
+      crypto = await server.crypto!;
+    } catch {
+      // Without keys nothing could have run — the error reveals nothing
+      server.tunnel.sendResultError(
+        event,
+        callId,
+        "Agent e2e keys are not available",
+        "invalid_signature",
+      );
+      return;
     }
+    server.tunnel.sendSealedResult(event, callId, crypto.seal(callId, outcome));
   }
 
-  private _refreshEndpoint(endpointId: string): void {
-    const client = this._clients.get(endpointId);
-    if (client) {
-      // If the client is still in its initial connecting phase (triggered by
-      // the agent:endpoints push that fires just before onAgentConnected),
-      // skip the refresh — it would create a redundant duplicate connection.
-      if (client.status === "connecting") return;
-      // Reconnect
-      client.disconnect().catch(() => {});
-      this._clients.delete(endpointId);
-      // Re-create with same config
-      this._addEndpoint(client.config);
+  /**
+   * With e2e, why a server event other than a tool call is refused, or
+   * null when its signature holds.
+   */
+  private async _checkSignature(
+    server: ServerConnection,
+    event: string,
+    payload: unknown,
+  ): Promise<string | null> {
+    if (!server.crypto) return null;
+    try {
+      (await server.crypto).verifyEvent(event, payload);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
     }
   }
 
-  // ── Tool call handling ───────────────────────────────────────────────
+  /** Null when the call may run, else the error it is rejected with. */
+  private async _verifyToolCall(
+    server: ServerConnection,
+    payload: ToolCallPayload,
+  ): Promise<ToolCallOutcome | null> {
+    if (!server.crypto) return null;
+    try {
+      (await server.crypto).verifyToolCall(payload);
+      return null;
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      this._log.warn(`Rejected ${payload.toolName}: ${reason}`, {
+        endpoint: payload.endpointId,
+        callId: payload.callId,
+        server: server.profile.name,
+      });
+      return {
+        error: `Rejected by agent: ${reason}`,
+        code: "invalid_signature",
+      };
+    }
+  }
 
-  private async _handleToolCall(payload: {
-    callId: string;
-    endpointId: string;
-    toolName: string;
-    args: Record<string, unknown>;
-  }): Promise<void> {
+  /**
+   * Metrics and audit around `_executeToolCall` — shared by tunneled calls
+   * and those from the local MCP server.
+   */
+  private async _runToolCall(
+    payload: ToolCallPayload,
+    options: ToolCallOptions,
+  ): Promise<ToolCallOutcome> {
     const { callId, endpointId, toolName, args } = payload;
-    const client = this._clients.get(endpointId);
+    const startedAt = Date.now();
+    this._metrics.toolCallStarted(endpointId);
+    let outcome = await this._executeToolCall(payload, options);
+    const resultBytes =
+      "result" in outcome
+        ? Buffer.byteLength(JSON.stringify(outcome.result) ?? "")
+        : 0;
+    // Too big for the tunnel — the local MCP server has no such limit
+    const tooLarge = tooLargeError(
+      resultBytes,
+      options.server?.tunnel.maxResultBytes ?? Infinity,
+    );
+    if (tooLarge) outcome = { error: tooLarge, code: "too_large" };
+    const durationMs = Date.now() - startedAt;
+    this._metrics.toolCallFinished(
+      endpointId,
+      "error" in outcome ? (outcome.code ?? "error") : "success",
+      durationMs,
+    );
 
-    if (!client) {
-      this._tunnel.sendToolError(
+    this._audit.record({
+      ts: new Date(startedAt).toISOString(),
+      callId,
+      endpointId,
+      namespace:
+        this._findEndpoint(endpointId, options.server)?.namespace ?? null,
+      tool: toolName,
+      args,
+      durationMs,
+      ...("error" in outcome
+        ? { outcome: outcome.code ?? "error", error: outcome.error }
+        : { outcome: "success", resultBytes }),
+      ...(options.server
+        ? { server: options.server.profile.name }
+        : { source: "local" as const }),
+    });
+    return outcome;
+  }
+
+  /**
+   * Runs a tool call through policy and the local client. Never throws. The
+   * call is registered in `_inFlight` before the first `await`, so it can be
+   * cancelled — and its id counts as taken — from the moment it arrives.
+   */
+  private async _executeToolCall(
+    payload: ToolCallPayload,
+    options: ToolCallOptions,
+  ): Promise<ToolCallOutcome> {
+    const controller = new AbortController();
+    const callKey = this._callKey(payload.callId, options.server);
+    this._inFlight.set(callKey, controller);
+    options.signal?.addEventListener(
+      "abort",
+      () => controller.abort(options.signal?.reason),
+      { once: true },
+    );
+    try {
+      return await this._checkAndCallTool(payload, options, controller);
+    } finally {
+      this._inFlight.delete(callKey);
+    }
+  }
+
+  private async _checkAndCallTool(
+    payload: ToolCallPayload,
+    options: ToolCallOptions,
+    controller: AbortController,
+  ): Promise<ToolCallOutcome> {
+    const { callId, endpointId, toolName, args } = payload;
+    if (options.server) {
+      const rejected = await this._verifyToolCall(options.server, payload);
+      if (rejected) return rejected;
+    }
+    const target = this._getConnectedClient(endpointId, options.server);
+
+    if (typeof target === "string") {
+      return { error: target };
+    }
+
+    const { client } = target;
+    const { namespace } = target.endpoint;
+    const decision = this._policy.evaluate(
+      namespace,
+      toolName,
+      args,
+      target.endpoint.cwd,
+    );
+    if (decision.action === "deny") {
+      this._log.warn(`Denied ${namespace}/${toolName}: ${decision.reason}`, {
+        endpoint: endpointId,
         callId,
-        `No local client for endpoint ${endpointId}`,
-      );
-      return;
+      });
+      return {
+        error: `Denied by local agent policy: ${decision.reason}`,
+        code: "denied",
+      };
+    }
+    if (
+      decision.action === "confirm" &&
+      !(await confirmToolCall(
+        `${namespace}/${toolName} ${JSON.stringify(args)}`,
+        this._policy.confirmTimeoutMs,
+      ))
+    ) {
+      return {
+        error:
+          "Denied by local agent policy: not confirmed on the agent machine",
+        code: "denied",
+      };
+    }
+
+    const timeoutMs =
+      payload.timeoutMs ??
+      this._config.toolCallTimeoutMs ??
+      DEFAULT_TOOL_CALL_TIMEOUT_MS;
+    let release: (() => void) | null = null;
+
+    try {
+      // Fail fast instead of queueing behind calls to a degraded endpoint
+      client.assertCircuitClosed();
+      release = await this._callQueue.acquire(client.endpointId, {
+        maxConcurrent: client.config.maxConcurrency,
+        signal: controller.signal,
+      });
+      const result = await client.callTool(toolName, args, {
+        signal: controller.signal,
+        timeoutMs,
+        onProgress: options.onProgress,
+      });
+      return { result };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        const reason = controller.signal.reason;
+        return {
+          error: `Tool call cancelled${typeof reason === "string" ? `: ${reason}` : ""}`,
+          code: "cancelled",
+        };
+      }
+      if (err instanceof CircuitOpenError) {
+        return { error: err.message, code: "degraded" };
+      }
+      if (err instanceof CallQueueBusyError) {
+        this._log.warn(`${toolName}: ${err.message}`, {
+          endpoint: endpointId,
+          callId,
+        });
+        return { error: err.message, code: "busy" };
+      }
+      if (err instanceof McpError && err.code === ErrorCode.RequestTimeout) {
+        return {
+          error: `Tool call timed out after ${timeoutMs}ms`,
+          code: "timeout",
+        };
+      }
+      return { error: err instanceof Error ? err.message : String(err) };
+    } finally {
+      release?.();
     }
+  }
+
+  /** Call ids are only unique per server. */
+  private _callKey(callId: string, server?: ServerConnection): string {
+    return server ? `${server.profile.name}:${callId}` : callId;
+  }
 
-    if (client.status !== "connected") {
-      this._tunnel.sendToolError(
+  /** Mirrors queue depth into metrics and, coalesced, to the servers. */
+  private _queueDepthChanged(endpointId: string): void {
+    this._metrics.setQueueDepth(
+      endpointId,
+      this._callQueue.depth(endpointId).queued,
+    );
+    this._queueStatusPending.add(endpointId);
+    this._queueStatusTimer ??= setTimeout(() => {
+      this._queueStatusTimer = null;
+      for (const id of this._queueStatusPending) {
+        const { active, queued } = this._callQueue.depth(id);
+        // The queue is keyed by the client's id; servers know their own
+        for (const [key, client] of this._clients) {
+          if (client.endpointId !== id) continue;
+          for (const { server, endpoint } of this._routes(key)) {
+            server.tunnel.sendQueueStatus(endpoint.id, active, queued);
+          }
+        }
+      }
+      this._queueStatusPending.clear();
+    }, QUEUE_STATUS_INTERVAL_MS);
+  }
+
+  private _cancelToolCall(
+    server: ServerConnection,
+    payload: ToolCancelPayload,
+  ): void {
+    const controller = this._inFlight.get(
+      this._callKey(payload.callId, server),
+    );
+    if (!controller) return;
+    controller.abort(payload.reason ?? "Cancelled by MCP Central");
+  }
+
+  // ── Resource & prompt handling ───────────────────────────────────────
+
+  private async _handleResourceRead(
+    server: ServerConnection,
+    payload: ResourceReadPayload,
+  ): Promise<void> {
+    const { callId, uri } = payload;
+    const outcome = await this._runRequest(
+      server,
+      "agent:resource_read",
+      payload,
+      (client) => client.readResource(uri),
+    );
+    if (server.crypto) {
+      await this._sendSealedOutcome(server, "resourceResult", callId, outcome);
+    } else if ("error" in outcome) {
+      server.tunnel.sendResourceError(callId, outcome.error, outcome.code);
+    } else {
+      server.tunnel.sendResourceResult(callId, outcome.result);
+    }
+  }
+
+  private async _handlePromptGet(
+    server: ServerConnection,
+    payload: PromptGetPayload,
+  ): Promise<void> {
+    const { callId, promptName, args } = payload;
+    const outcome = await this._runRequest(
+      server,
+      "agent:prompt_get",
+      payload,
+      (client) => client.getPrompt(promptName, args ?? {}),
+    );
+    if (server.crypto) {
+      await this._sendSealedOutcome(server, "promptResult", callId, outcome);
+    } else if ("error" in outcome) {
+      server.tunnel.sendPromptError(callId, outcome.error, outcome.code);
+    } else {
+      server.tunnel.sendPromptResult(callId, outcome.result);
+    }
+  }
+
+  /**
+   * Runs a resource read or prompt get once its signature holds (with e2e)
+   * and refuses results too large to send.
+   */
+  private async _runRequest(
+    server: ServerConnection,
+    event: string,
+    payload: ResourceReadPayload | PromptGetPayload,
+    run: (client: LocalClient) => Promise<unknown>,
+  ): Promise<ToolCallOutcome> {
+    const { callId, endpointId } = payload;
+    const rejected = await this._checkSignature(server, event, payload);
+    if (rejected) {
+      this._log.warn(`Rejected ${event}: ${rejected}`, {
+        endpoint: endpointId,
         callId,
-        `Endpoint ${endpointId} is not connected (status: ${client.status})`,
-      );
-      return;
+        server: server.profile.name,
+      });
+      return {
+        error: `Rejected by agent: ${rejected}`,
+        code: "invalid_signature",
+      };
     }
 
+    const target = this._getConnectedClient(endpointId, server);
+    if (typeof target === "string") return { error: target };
+
     try {
-      const result = await client.callTool(toolName, args);
-      this._tunnel.sendToolResult(callId, result);
+      const result = await run(target.client);
+      const tooLarge = tooLargeError(
+        Buffer.byteLength(JSON.stringify(result) ?? ""),
+        server.tunnel.maxResultBytes,
+      );
+      return tooLarge ? { error: tooLarge, code: "too_large" } : { result };
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      this._tunnel.sendToolError(callId, message);
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /**
+   * Endpoint config by id as `server` knows it; calls from the local MCP
+   * server (no `server`) may target any server's endpoints.
+   */
+  private _findEndpoint(
+    endpointId: string,
+    server?: ServerConnection,
+  ): EndpointConfig | undefined {
+    const local = this._localEndpoints.get(endpointId);
+    if (local?.isEnabled) return local;
+    for (const s of server ? [server] : this._servers) {
+      const endpoint = s.endpoints.get(endpointId);
+      if (endpoint) return endpoint;
     }
+    return undefined;
   }
+
+  /**
+   * Returns the connected client for an endpoint, or an error message
+   * suitable for sending back through the tunnel. Degraded clients are
+   * returned too — their calls fail fast with the breaker's reason.
+   */
+  private _getConnectedClient(
+    endpointId: string,
+    server?: ServerConnection,
+  ): { endpoint: EndpointConfig; client: LocalClient } | string {
+    const endpoint = this._findEndpoint(endpointId, server);
+    const client = endpoint && this._clients.get(connectionKey(endpoint));
+
+    if (!endpoint || !client) {
+      return `No local client for endpoint ${endpointId}`;
+    }
+
+    if (!client.hasSession) {
+      return `Endpoint ${endpointId} is not connected (status: ${client.status})`;
+    }
+
+    return { endpoint, client };
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Whether two configs agree on everything `LocalClient.updateConfig` sets. */
+function sameMetadata(a: EndpointConfig, b: EndpointConfig): boolean {
+  return (
+    a.id === b.id &&
+    a.name === b.name &&
+    a.namespace === b.namespace &&
+    a.maxConcurrency === b.maxConcurrency &&
+    JSON.stringify(a.restart) === JSON.stringify(b.restart)
+  );
+}
+
+/** Deep equality of plain config values. */
+/** The `too_large` error for a result over a tunnel's limit, if it is. */
+function tooLargeError(bytes: number, maxBytes: number): string | null {
+  return bytes > maxBytes
+    ? `Result is ${bytes} bytes, over the ${maxBytes}-byte limit for tunneled results`
+    : null;
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
 }
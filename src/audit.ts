@@ -0,0 +1,244 @@
+import { createHmac, randomBytes } from "crypto";
+import {
+  appendFile,
+  chmod,
+  mkdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { dirname } from "path";
+import { DEFAULT_SERVER_PROFILE, type AuditConfig } from "./config.js";
+import { matchesGlob } from "./policy.js";
+import { expandHome } from "./secrets.js";
+import { Logger } from "./logger.js";
+
+// ── Audit record ────────────────────────────────────────────────────────────
+
+export const AUDIT_OUTCOMES = [
+  "success",
+  "error",
+  "denied",
+  "timeout",
+  "cancelled",
+  "busy",
+  "too_large",
+  "invalid_signature",
+  "degraded",
+] as const;
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+/** One line of the JSONL audit log. */
+export interface AuditRecord {
+  /** ISO-8601 time the call arrived */
+  ts: string;
+  callId: string;
+  endpointId: string;
+  /** Namespace of the endpoint, null when no local client was found */
+  namespace: string | null;
+  tool: string;
+  /** Arguments after redaction/hashing */
+  args: Record<string, unknown>;
+  durationMs: number;
+  outcome: AuditOutcome;
+  error?: string;
+  /** Size in bytes of the JSON-encoded result */
+  resultBytes?: number;
+  /** Set for calls made through the local MCP server instead of the tunnel */
+  source?: "local";
+  /** Server profile the call was tunneled from */
+  server?: string;
+}
+
+const REDACTED = "[REDACTED]";
+
+// ── AuditLog ────────────────────────────────────────────────────────────────
+
+/**
+ * Append-only JSONL log of tunneled tool calls, rotated by size
+ * (`audit.jsonl` → `audit.jsonl.1` → … → `audit.jsonl.<maxFiles>`).
+ * Writes are serialized and never throw — a failing audit log is reported
+ * but must not break tool calls. `hash` mode keys its HMAC with a random
+ * per-install key in `<file>.key` (mode 0600), so short or guessable
+ * arguments can't be recovered from the log alone.
+ */
+export class AuditLog {
+  private readonly _config: AuditConfig | undefined;
+  private readonly _path: string | null;
+  private _queue: Promise<void> = Promise.resolve();
+  private _hashKey: Promise<Buffer> | null = null;
+  private readonly _log = new Logger("AuditLog");
+
+  constructor(config: AuditConfig | undefined) {
+    this._config = config;
+    this._path = config?.enabled ? expandHome(config.file) : null;
+  }
+
+  get enabled(): boolean {
+    return this._path !== null;
+  }
+
+  /** Redacts `record.args` per the config and queues the write. */
+  record(record: AuditRecord): void {
+    if (!this._path || !this._config) return;
+    const { args } = record;
+    this._queue = this._queue
+      .then(async () => {
+        const key =
+          this._config!.args === "hash" ? await this._loadHashKey() : null;
+        const line =
+          JSON.stringify({ ...record, args: this._redactArgs(args, key) }) +
+          "\n";
+        await this._write(line);
+      })
+      .catch((err) => {
+        this._log.error(`Failed to write ${this._path}`, { error: err });
+      });
+  }
+
+  /** Resolves once all queued records are on disk. */
+  flush(): Promise<void> {
+    return this._queue;
+  }
+
+  private async _write(line: string): Promise<void> {
+    const path = this._path!;
+    await mkdir(dirname(path), { recursive: true });
+    const size = await stat(path).then(
+      (s) => s.size,
+      () => 0,
+    );
+    if (size > 0 && size + Buffer.byteLength(line) > this._config!.maxBytes) {
+      await this._rotate(path);
+    }
+    await appendFile(path, line, { encoding: "utf-8", mode: 0o600 });
+  }
+
+  private async _rotate(path: string): Promise<void> {
+    const { maxFiles } = this._config!;
+    await rm(`${path}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {});
+    }
+    await rename(path, `${path}.1`);
+  }
+
+  /** Reads `<file>.key`, creating it on first use; retried after a failure. */
+  private _loadHashKey(): Promise<Buffer> {
+    this._hashKey ??= readOrCreateKey(`${this._path}.key`).catch((err) => {
+      this._hashKey = null;
+      throw err;
+    });
+    return this._hashKey;
+  }
+
+  private _redactArgs(
+    args: Record<string, unknown>,
+    hashKey: Buffer | null,
+  ): Record<string, unknown> {
+    const { args: mode, redactKeys } = this._config!;
+    const isSensitive = (key: string) =>
+      redactKeys.some((p) => matchesGlob(p.toLowerCase(), key.toLowerCase()));
+
+    const redact = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(redact);
+      if (value && typeof value === "object") {
+        return Object.fromEntries(
+          Object.entries(value).map(([k, v]) => [
+            k,
+            isSensitive(k) ? REDACTED : redact(v),
+          ]),
+        );
+      }
+      return value;
+    };
+
+    return Object.fromEntries(
+      Object.entries(args ?? {}).map(([key, value]) => {
+        if (mode === "redact" || isSensitive(key)) return [key, REDACTED];
+        if (mode === "hash") return [key, hashValue(hashKey!, value)];
+        return [key, redact(value)];
+      }),
+    );
+  }
+}
+
+// ── Reading ─────────────────────────────────────────────────────────────────
+
+export interface AuditFilter {
+  endpointId?: string;
+  /** Tool name glob */
+  tool?: string;
+  outcome?: AuditOutcome;
+  /** Only records at or after this time */
+  since?: Date;
+}
+
+/** Parses JSONL audit lines, skipping blank or corrupt ones. */
+export function parseAuditLines(text: string): AuditRecord[] {
+  const records: AuditRecord[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as AuditRecord);
+    } catch {
+      // Partially written or corrupted line — ignore
+    }
+  }
+  return records;
+}
+
+export function matchesAuditFilter(
+  record: AuditRecord,
+  filter: AuditFilter,
+): boolean {
+  if (filter.endpointId && record.endpointId !== filter.endpointId) {
+    return false;
+  }
+  if (filter.tool && !matchesGlob(filter.tool, record.tool)) return false;
+  if (filter.outcome && record.outcome !== filter.outcome) return false;
+  if (filter.since && new Date(record.ts) < filter.since) return false;
+  return true;
+}
+
+/** Single-line human-readable rendering used by the `audit` command. */
+export function formatAuditRecord(record: AuditRecord): string {
+  const target = `${record.namespace ?? record.endpointId}/${record.tool}`;
+  const size =
+    record.resultBytes !== undefined ? ` ${record.resultBytes}B` : "";
+  const error = record.error ? ` — ${record.error}` : "";
+  // The server is only worth showing when the agent has more than one
+  const via =
+    record.source ??
+    (record.server !== DEFAULT_SERVER_PROFILE ? record.server : undefined);
+  const source = via ? ` (${via})` : "";
+  return `${record.ts}  ${record.outcome.padEnd(9)} ${target} (${record.durationMs}ms${size}) [${record.callId}]${source}${error}`;
+}
+
+/** Short, stable fingerprint so identical arguments can be correlated. */
+function hashValue(key: Buffer, value: unknown): string {
+  const digest = createHmac("sha256", key)
+    .update(JSON.stringify(value) ?? "undefined")
+    .digest("hex");
+  return `hmac:${digest.slice(0, 16)}`;
+}
+
+async function readOrCreateKey(path: string): Promise<Buffer> {
+  try {
+    const key = Buffer.from((await readFile(path, "utf-8")).trim(), "base64");
+    if (key.length >= 32) return key;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  const key = randomBytes(32);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, key.toString("base64") + "\n", {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  // `mode` only applies to a new file
+  await chmod(path, 0o600);
+  return key;
+}
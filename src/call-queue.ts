@@ -0,0 +1,172 @@
+// ── CallQueue ───────────────────────────────────────────────────────────────
+
+export interface CallQueueLimits {
+  /** Concurrent calls per endpoint (overridable per endpoint) */
+  maxConcurrentPerEndpoint: number;
+  /** Concurrent calls across all endpoints */
+  maxConcurrent: number;
+  /** Calls allowed to wait for a slot before new ones are rejected */
+  maxQueueLength: number;
+  /** How long a call may wait for a slot */
+  queueTimeoutMs: number;
+}
+
+export const DEFAULT_CALL_QUEUE_LIMITS: CallQueueLimits = {
+  maxConcurrentPerEndpoint: 4,
+  maxConcurrent: 32,
+  maxQueueLength: 100,
+  queueTimeoutMs: 30_000,
+};
+
+/** Raised when a call cannot get a slot — surfaced as an "agent busy" error. */
+export class CallQueueBusyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CallQueueBusyError";
+  }
+}
+
+export interface QueueDepth {
+  active: number;
+  queued: number;
+}
+
+interface Waiter {
+  endpointId: string;
+  limit: number;
+  grant: () => void;
+}
+
+/**
+ * Bounds concurrent tool calls per endpoint and globally. Calls beyond the
+ * limits wait in a single FIFO queue; a waiter only blocks later calls to
+ * the same endpoint, so one saturated endpoint doesn't stall the others.
+ */
+export class CallQueue {
+  private readonly _limits: CallQueueLimits;
+  private readonly _onDepthChanged: (endpointId: string) => void;
+  private readonly _active = new Map<string, number>();
+  private readonly _waiting: Waiter[] = [];
+  private _activeTotal = 0;
+
+  constructor(
+    limits: CallQueueLimits,
+    onDepthChanged: (endpointId: string) => void = () => {},
+  ) {
+    this._limits = limits;
+    this._onDepthChanged = onDepthChanged;
+  }
+
+  depth(endpointId: string): QueueDepth {
+    return {
+      active: this._active.get(endpointId) ?? 0,
+      queued: this._waiting.filter((w) => w.endpointId === endpointId).length,
+    };
+  }
+
+  /**
+   * Resolves with a release function once the call may run. Rejects with
+   * `CallQueueBusyError` when the queue is full or the wait times out, and
+   * with the abort reason when `signal` fires while queued.
+   */
+  acquire(
+    endpointId: string,
+    options: { maxConcurrent?: number; signal?: AbortSignal } = {},
+  ): Promise<() => void> {
+    const limit =
+      options.maxConcurrent ?? this._limits.maxConcurrentPerEndpoint;
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    if (
+      !this._waiting.some((w) => w.endpointId === endpointId) &&
+      this._hasSlot(endpointId, limit)
+    ) {
+      return Promise.resolve(this._take(endpointId));
+    }
+    if (this._waiting.length >= this._limits.maxQueueLength) {
+      return Promise.reject(
+        new CallQueueBusyError(
+          `Agent busy: ${this._waiting.length} calls already queued`,
+        ),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const leave = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        const index = this._waiting.indexOf(waiter);
+        if (index !== -1) this._waiting.splice(index, 1);
+      };
+      const onAbort = () => {
+        leave();
+        this._onDepthChanged(endpointId);
+        // Our departure may unblock calls queued behind us
+        this._drain();
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        leave();
+        this._onDepthChanged(endpointId);
+        this._drain();
+        reject(
+          new CallQueueBusyError(
+            `Agent busy: no free slot for endpoint ${endpointId} within ${this._limits.queueTimeoutMs}ms`,
+          ),
+        );
+      }, this._limits.queueTimeoutMs);
+      const waiter: Waiter = {
+        endpointId,
+        limit,
+        grant: () => {
+          leave();
+          resolve(this._take(endpointId));
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this._waiting.push(waiter);
+      this._onDepthChanged(endpointId);
+    });
+  }
+
+  private _hasSlot(endpointId: string, limit: number): boolean {
+    return (
+      this._activeTotal < this._limits.maxConcurrent &&
+      (this._active.get(endpointId) ?? 0) < limit
+    );
+  }
+
+  private _take(endpointId: string): () => void {
+    this._active.set(endpointId, (this._active.get(endpointId) ?? 0) + 1);
+    this._activeTotal++;
+    this._onDepthChanged(endpointId);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const active = (this._active.get(endpointId) ?? 1) - 1;
+      if (active > 0) this._active.set(endpointId, active);
+      else this._active.delete(endpointId);
+      this._activeTotal--;
+      this._onDepthChanged(endpointId);
+      this._drain();
+    };
+  }
+
+  /** Grants slots to waiters in FIFO order, skipping blocked endpoints. */
+  private _drain(): void {
+    const blocked = new Set<string>();
+    for (const waiter of [...this._waiting]) {
+      if (this._activeTotal >= this._limits.maxConcurrent) return;
+      if (blocked.has(waiter.endpointId)) continue;
+      if (this._hasSlot(waiter.endpointId, waiter.limit)) {
+        waiter.grant();
+      } else {
+        blocked.add(waiter.endpointId);
+      }
+    }
+  }
+}
@@ -0,0 +1,104 @@
+// ── Health checks & circuit breaker ─────────────────────────────────────────
+//
+// A wedged stdio process or a half-open HTTP connection never fires the
+// transport's `onerror`/`onclose`, so `LocalClient` pings each connected
+// endpoint and counts failed tool calls. After `failureThreshold` consecutive
+// failures the breaker opens: the endpoint is reported `degraded` and calls
+// fail fast. After `resetTimeoutMs` it goes half-open and a single ping
+// probes the server — success closes the breaker, failure opens it again.
+
+export interface HealthCheckOptions {
+  /** Pings and the breaker; when false, endpoints are never `degraded` */
+  enabled: boolean;
+  /** Time between pings of a healthy endpoint */
+  intervalMs: number;
+  /** A ping unanswered for this long counts as a failure */
+  timeoutMs: number;
+  /** Consecutive call failures or ping timeouts that open the breaker */
+  failureThreshold: number;
+  /** How long the breaker stays open before a half-open probe */
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_HEALTH_CHECK_OPTIONS: HealthCheckOptions = {
+  enabled: true,
+  intervalMs: 30_000,
+  timeoutMs: 10_000,
+  failureThreshold: 3,
+  resetTimeoutMs: 30_000,
+};
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** Raised instead of sending a request while the breaker is not closed. */
+export class CircuitOpenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Consecutive-failure breaker. It only tracks state — `LocalClient` owns
+ * the timers that ping and probe.
+ */
+export class CircuitBreaker {
+  private readonly _threshold: number;
+  private readonly _onStateChange: (
+    state: CircuitState,
+    reason?: string,
+  ) => void;
+  private _state: CircuitState = "closed";
+  private _failures = 0;
+  private _reason: string | undefined;
+
+  constructor(
+    failureThreshold: number,
+    onStateChange: (state: CircuitState, reason?: string) => void,
+  ) {
+    this._threshold = failureThreshold;
+    this._onStateChange = onStateChange;
+  }
+
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /** Why the breaker last opened */
+  get reason(): string | undefined {
+    return this._reason;
+  }
+
+  recordSuccess(): void {
+    this._failures = 0;
+    if (this._state !== "closed") this._transition("closed");
+  }
+
+  recordFailure(reason: string): void {
+    this._failures++;
+    if (
+      this._state === "half_open" ||
+      (this._state === "closed" && this._failures >= this._threshold)
+    ) {
+      this._reason = `${this._failures} consecutive failures, last: ${reason}`;
+      this._transition("open", this._reason);
+    }
+  }
+
+  /** Lets one probe through an open breaker. */
+  halfOpen(): void {
+    if (this._state === "open") this._transition("half_open");
+  }
+
+  /** Back to closed without notifying, for a new connection. */
+  reset(): void {
+    this._state = "closed";
+    this._failures = 0;
+    this._reason = undefined;
+  }
+
+  private _transition(state: CircuitState, reason?: string): void {
+    this._state = state;
+    this._onStateChange(state, reason);
+  }
+}
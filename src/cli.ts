@@ -1,10 +1,36 @@
 #!/usr/bin/env node
-import { program } from "commander";
+import { Option, program } from "commander";
 import { createInterface } from "readline";
-import { writeFile } from "fs/promises";
+import { spawn } from "child_process";
+import { open, readFile, writeFile } from "fs/promises";
+import { unwatchFile, watchFile } from "fs";
 import { resolve } from "path";
-import { loadConfig } from "./config.js";
+import { Writable } from "stream";
+import { loadConfig, resolveConfigPath } from "./config.js";
 import { McpCentralAgent } from "./agent.js";
+import { doctorPassed, formatDoctorReport, runDoctor } from "./doctor.js";
+import { expandHome, readSecretsFile, writeSecretsFile } from "./secrets.js";
+import { generateKeyPair, writePrivateKey } from "./e2e.js";
+import {
+  DEFAULT_OAUTH_SETTINGS,
+  loginEndpoint,
+  OAuthTokenStore,
+} from "./oauth.js";
+import {
+  AUDIT_OUTCOMES,
+  formatAuditRecord,
+  matchesAuditFilter,
+  parseAuditLines,
+} from "./audit.js";
+import type { AuditFilter, AuditOutcome, AuditRecord } from "./audit.js";
+import {
+  configureLogging,
+  LOG_FORMATS,
+  LOG_LEVELS,
+  Logger,
+  type LogFormat,
+  type LogLevel,
+} from "./logger.js";
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -15,6 +41,77 @@ function ask(
   return new Promise((resolve) => rl.question(question, resolve));
 }
 
+/**
+ * Reads a secret without echoing it: from a muted prompt on a terminal,
+ * otherwise from stdin (`echo … | secrets set NAME`).
+ */
+async function readSecretValue(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks)
+      .toString("utf-8")
+      .replace(/\r?\n$/, "");
+  }
+  process.stdout.write(question);
+  const rl = createInterface({
+    input: process.stdin,
+    output: new Writable({ write: (_chunk, _encoding, done) => done() }),
+    terminal: true,
+  });
+  rl.on("SIGINT", () => {
+    rl.close();
+    process.stdout.write("\n");
+    process.exit(130);
+  });
+  try {
+    return await ask(rl, "");
+  } finally {
+    rl.close();
+    process.stdout.write("\n");
+  }
+}
+
+function fail(err: unknown): never {
+  if (err instanceof Error) {
+    console.error(`\n  Error: ${err.message}\n`);
+  } else {
+    console.error(`\n  Error: ${String(err)}\n`);
+  }
+  process.exit(1);
+}
+
+/** Loads the config and returns its `secretsFile`, throwing if unset. */
+async function requireSecretsFile(configPath?: string): Promise<string> {
+  const config = await loadConfig(configPath);
+  if (!config.secretsFile) {
+    throw new Error(
+      `No 'secretsFile' is set in ${resolveConfigPath(configPath).path}`,
+    );
+  }
+  return config.secretsFile;
+}
+
+/** Best effort — the URL is printed as well. */
+function openBrowser(url: string): void {
+  const [command, args] =
+    process.platform === "darwin"
+      ? ["open", [url]]
+      : process.platform === "win32"
+        ? ["cmd", ["/c", "start", "", url]]
+        : ["xdg-open", [url]];
+  const child = spawn(command, args, { stdio: "ignore", detached: true });
+  child.on("error", () => {});
+  child.unref();
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+const CONFIG_OPTION_HELP =
+  "Path to config file (default: $MCP_AGENT_CONFIG or mcp-agent.json)";
+
 // ── CLI ────────────────────────────────────────────────────────────────────
 
 program
@@ -72,37 +169,414 @@ program
 
 // ── start ─────────────────────────────────────────────────────────────────
 
+interface StartOptions {
+  config?: string;
+  serverUrl?: string;
+  agentName?: string;
+  apiKeyFile?: string;
+  set: string[];
+  watch: boolean;
+  stdio?: boolean;
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+}
+
+/** Config overrides given as `start` flags — the highest-precedence layer. */
+function startOverrides(options: StartOptions): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const entry of options.set) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`Invalid --set '${entry}': expected <field>=<value>`);
+    }
+    overrides[entry.slice(0, eq)] = entry.slice(eq + 1);
+  }
+  if (options.serverUrl) overrides.serverUrl = options.serverUrl;
+  if (options.agentName) overrides.agentName = options.agentName;
+  if (options.apiKeyFile) overrides.apiKeyFile = options.apiKeyFile;
+  return overrides;
+}
+
 program
   .command("start")
   .description("Start the agent and connect to MCP Central")
-  .option("-c, --config <path>", "Path to config file", "mcp-agent.json")
-  .action(async (options: { config: string }) => {
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .option("--server-url <url>", "Override serverUrl")
+  .option("--agent-name <name>", "Override agentName")
+  .option("--api-key-file <path>", "Read apiKey from this file")
+  .option(
+    "--set <field=value>",
+    "Override any config field by dotted path, e.g. metrics.port=9464 " +
+      "(repeatable; non-string values are JSON)",
+    collect,
+    [],
+  )
+  .option("--no-watch", "Don't reload the config when the file changes")
+  .option(
+    "--stdio",
+    "Also serve the endpoints' tools as one MCP server over stdin/stdout",
+  )
+  .addOption(
+    new Option("--log-level <level>", "Minimum level of log lines")
+      .choices(LOG_LEVELS)
+      .default("info"),
+  )
+  .addOption(
+    new Option("--log-format <format>", "Log line format")
+      .choices(LOG_FORMATS)
+      .default("pretty"),
+  )
+  .action(async (options: StartOptions) => {
+    if (options.stdio) {
+      // stdout carries the MCP protocol — keep log lines off it.
+      console.log = console.error;
+      console.info = console.error;
+    }
+    configureLogging({ level: options.logLevel, format: options.logFormat });
     let config;
+    let overrides: Record<string, string>;
     try {
-      config = await loadConfig(options.config);
+      overrides = startOverrides(options);
+      config = await loadConfig(options.config, { overrides });
     } catch (err) {
-      if (err instanceof Error) {
-        console.error(`\n  Error: ${err.message}\n`);
-      } else {
-        console.error(`\n  Error: ${String(err)}\n`);
-      }
-      process.exit(1);
+      fail(err);
     }
 
-    const agent = new McpCentralAgent(config);
+    const log = new Logger("cli");
+    let agent: McpCentralAgent;
+    try {
+      agent = new McpCentralAgent(config, {
+        stdio: options.stdio,
+        onFatal: (err) => {
+          log.error(err.message);
+          agent.stop().finally(() => process.exit(1));
+        },
+      });
+    } catch (err) {
+      fail(err);
+    }
     agent.start();
 
+    // Live reload — an invalid config is reported and the running one kept
+    let reloading = Promise.resolve();
+    const reload = (reason: string) => {
+      reloading = reloading.then(async () => {
+        log.info(`Reloading config (${reason})…`);
+        try {
+          agent.applyConfig(await loadConfig(options.config, { overrides }));
+        } catch (err) {
+          log.error("Config reload failed — keeping the running config", {
+            error: err,
+          });
+        }
+      });
+    };
+    const configPath = resolveConfigPath(options.config).path;
+    if (options.watch) {
+      watchFile(configPath, { interval: 1000 }, (curr, prev) => {
+        if (curr.mtimeMs !== prev.mtimeMs) reload("file changed");
+      });
+    }
+    process.on("SIGHUP", () => reload("SIGHUP"));
+
     // Graceful shutdown
     const shutdown = async () => {
-      console.log("\n  Shutting down…");
+      log.info("Shutting down…");
+      unwatchFile(configPath);
       await agent.stop();
       process.exit(0);
     };
 
     process.on("SIGINT", shutdown);
     process.on("SIGTERM", shutdown);
+    // The MCP client that spawned us went away
+    if (options.stdio) process.stdin.on("end", shutdown);
+  });
+
+// ── doctor ────────────────────────────────────────────────────────────────
+
+program
+  .command("doctor")
+  .description(
+    "Check the config, the connection to MCP Central and every endpoint " +
+      "(exits non-zero if a check fails)",
+  )
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .option("-t, --timeout <ms>", "Deadline for each check", "15000")
+  .action(async (options: { config?: string; timeout: string }) => {
+    const timeoutMs = Number(options.timeout);
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+      fail(new Error(`Invalid --timeout: ${options.timeout}`));
+    }
+    console.log("\n  MCP Central Agent — Doctor\n");
+    const checks = await runDoctor(options.config, { timeoutMs });
+    console.log(`\n${formatDoctorReport(checks)}\n`);
+    process.exit(doctorPassed(checks) ? 0 : 1);
+  });
+
+// ── secrets ───────────────────────────────────────────────────────────────
+
+const secrets = program
+  .command("secrets")
+  .description(
+    "Manage the encrypted secrets file used by ${secret:NAME} placeholders " +
+      "(passphrase read from MCP_AGENT_SECRETS_PASSPHRASE)",
+  );
+
+secrets
+  .command("set <name>")
+  .description(
+    "Add or replace a secret (value is read from a hidden prompt, or from " +
+      "stdin when it is not a terminal)",
+  )
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .action(async (name: string, options: { config?: string }) => {
+    try {
+      const secretsFile = await requireSecretsFile(options.config);
+      const current = await readSecretsFile(secretsFile);
+      const value = await readSecretValue(`  Value for ${name}: `);
+      await writeSecretsFile(secretsFile, { ...current, [name]: value });
+      console.log(`\n  ✓ Secret '${name}' saved to ${secretsFile}\n`);
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+secrets
+  .command("remove <name>")
+  .description("Remove a secret")
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .action(async (name: string, options: { config?: string }) => {
+    try {
+      const secretsFile = await requireSecretsFile(options.config);
+      const { [name]: removed, ...rest } = await readSecretsFile(secretsFile);
+      if (removed === undefined) {
+        throw new Error(`No secret named '${name}'`);
+      }
+      await writeSecretsFile(secretsFile, rest);
+      console.log(`\n  ✓ Secret '${name}' removed\n`);
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+secrets
+  .command("list")
+  .description("List secret names (values are never printed)")
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .action(async (options: { config?: string }) => {
+    try {
+      const secretsFile = await requireSecretsFile(options.config);
+      const names = Object.keys(await readSecretsFile(secretsFile)).sort();
+      for (const name of names) console.log(`  ${name}`);
+    } catch (err) {
+      fail(err);
+    }
+  });
+
+// ── login ───────────────────────────────────────────────────────────────
+
+program
+  .command("login <endpoint>")
+  .description(
+    "Sign in to an OAuth-protected HTTP endpoint and store its tokens " +
+      "(a local endpoint id, or the URL of an endpoint from MCP Central)",
+  )
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .option("--client-id <id>", "Pre-registered OAuth client id")
+  .option("--scope <scope>", "Scope to request")
+  .action(
+    async (
+      target: string,
+      options: { config?: string; clientId?: string; scope?: string },
+    ) => {
+      try {
+        const config = await loadConfig(options.config);
+        const endpoint = config.endpoints?.find((e) => e.id === target);
+        let url: string;
+        if (endpoint) {
+          if (!endpoint.url || endpoint.transport === "stdio") {
+            throw new Error(`Endpoint '${target}' is not an HTTP endpoint`);
+          }
+          url = endpoint.url;
+        } else if (/^https?:\/\//.test(target)) {
+          url = target;
+        } else {
+          throw new Error(
+            `No local endpoint '${target}' — pass the URL of endpoints from MCP Central`,
+          );
+        }
+        const settings = config.oauth ?? DEFAULT_OAUTH_SETTINGS;
+        const store = new OAuthTokenStore(settings.tokenFile);
+        await loginEndpoint(url, {
+          store,
+          callbackPort: settings.callbackPort,
+          endpointId: target,
+          clientId: options.clientId ?? endpoint?.oauth?.clientId,
+          scope: options.scope ?? endpoint?.oauth?.scope,
+          onAuthorizationUrl: (authorizationUrl) => {
+            console.log(
+              `\n  Open this URL to sign in:\n\n  ${authorizationUrl.href}\n`,
+            );
+            openBrowser(authorizationUrl.href);
+          },
+        });
+        console.log(
+          `\n  ✓ Signed in to ${url} — tokens saved to ${store.path}\n`,
+        );
+        process.exit(0);
+      } catch (err) {
+        fail(err);
+      }
+    },
+  );
+
+// ── keygen ────────────────────────────────────────────────────────────────
+
+program
+  .command("keygen")
+  .description(
+    "Create the agent keypair used by e2e mode and print the public key " +
+      "to register with MCP Central",
+  )
+  .option(
+    "-o, --output <path>",
+    "Private key file (e2e.privateKeyFile)",
+    "~/.mcp-central-agent/agent-key.pem",
+  )
+  .option("-f, --force", "Replace an existing key file")
+  .action(async (options: { output: string; force?: boolean }) => {
+    try {
+      const { privateKey, publicKey } = generateKeyPair();
+      await writePrivateKey(options.output, privateKey, options.force);
+      console.error(`\n  ✓ Private key saved to ${expandHome(options.output)}`);
+      console.error("\n  Register this public key with MCP Central:\n");
+      console.log(publicKey);
+    } catch (err) {
+      fail(err);
+    }
   });
 
+// ── audit ─────────────────────────────────────────────────────────────────
+
+program
+  .command("audit")
+  .description("Show and filter the tool call audit log")
+  .option("-c, --config <path>", CONFIG_OPTION_HELP)
+  .option("-n, --lines <count>", "Number of matching records to show", "20")
+  .option("-e, --endpoint <id>", "Only calls to this endpoint id")
+  .option("-t, --tool <glob>", "Only calls to tools matching this glob")
+  .addOption(
+    new Option("-o, --outcome <outcome>", "Only this outcome").choices(
+      AUDIT_OUTCOMES,
+    ),
+  )
+  .option("-s, --since <time>", "Only calls at or after this ISO time")
+  .option("-f, --follow", "Keep printing new records as they are written")
+  .option("--json", "Print raw JSONL records")
+  .action(
+    async (options: {
+      config?: string;
+      lines: string;
+      endpoint?: string;
+      tool?: string;
+      outcome?: AuditOutcome;
+      since?: string;
+      follow?: boolean;
+      json?: boolean;
+    }) => {
+      const lines = Number(options.lines);
+      if (!Number.isInteger(lines) || lines <= 0) {
+        fail(new Error(`Invalid --lines: ${options.lines}`));
+      }
+      let path: string;
+      const filter: AuditFilter = {
+        endpointId: options.endpoint,
+        tool: options.tool,
+        outcome: options.outcome,
+      };
+      try {
+        const config = await loadConfig(options.config);
+        if (!config.audit?.enabled) {
+          throw new Error(
+            `Audit logging is not enabled in ${resolveConfigPath(options.config).path}`,
+          );
+        }
+        path = expandHome(config.audit.file);
+        if (options.since) {
+          filter.since = new Date(options.since);
+          if (Number.isNaN(filter.since.getTime())) {
+            throw new Error(`Invalid --since time: ${options.since}`);
+          }
+        }
+      } catch (err) {
+        fail(err);
+      }
+
+      const print = (records: AuditRecord[]) => {
+        for (const record of records) {
+          if (!matchesAuditFilter(record, filter)) continue;
+          console.log(
+            options.json ? JSON.stringify(record) : formatAuditRecord(record),
+          );
+        }
+      };
+
+      const text = await readFile(path, "utf-8").catch(() => "");
+      const matching = parseAuditLines(text).filter((r) =>
+        matchesAuditFilter(r, filter),
+      );
+      print(matching.slice(-lines));
+      if (!options.follow) return;
+
+      // Poll for appended bytes; a new inode or a shrinking file means it was
+      // rotated or truncated, so it is read again from the start. Reads are
+      // chained so overlapping polls never read a range twice.
+      let offset = Buffer.byteLength(text);
+      let pending = "";
+      let reading = Promise.resolve();
+      const readAppended = async (size: number, replaced: boolean) => {
+        if (replaced || size < offset) {
+          offset = 0;
+          pending = "";
+        }
+        if (size <= offset) return;
+        const handle = await open(path, "r");
+        try {
+          const buffer = Buffer.alloc(size - offset);
+          const { bytesRead } = await handle.read(
+            buffer,
+            0,
+            buffer.length,
+            offset,
+          );
+          offset += bytesRead;
+          const chunk = pending + buffer.toString("utf-8", 0, bytesRead);
+          const end = chunk.lastIndexOf("\n") + 1;
+          pending = chunk.slice(end);
+          print(parseAuditLines(chunk.slice(0, end)));
+        } finally {
+          await handle.close();
+        }
+      };
+      watchFile(path, { interval: 1_000 }, (curr, prev) => {
+        // The file may vanish mid-rotation; the next poll picks it up again
+        const replaced = curr.ino !== prev.ino || curr.dev !== prev.dev;
+        reading = reading
+          .then(() => readAppended(curr.size, replaced))
+          .catch((err: unknown) => {
+            console.error(
+              `  Could not read ${path}: ${err instanceof Error ? err.message : err}`,
+            );
+          });
+      });
+      process.on("SIGINT", () => {
+        unwatchFile(path);
+        process.exit(0);
+      });
+    },
+  );
+
 // ── Parse ──────────────────────────────────────────────────────────────────
 
 program.parse(process.argv);
@@ -1,56 +1,615 @@
 import { z } from "zod";
 import { readFile } from "fs/promises";
 import { resolve } from "path";
+import { expandHome } from "./secrets.js";
 
 // ── Config file schema ──────────────────────────────────────────────────────
 
-export const AgentConfigSchema = z.object({
-  /** Base URL of the MCP Central server (e.g. https://mcp.example.com) */
-  serverUrl: z.string().url("serverUrl must be a valid URL"),
-  /** Display name of this agent — must match the name used when creating the agent */
-  agentName: z.string().min(1, "agentName is required"),
-  /** Agent API key starting with 'agent_' (generated by MCP Central) */
-  apiKey: z
+export const RootConfigSchema = z.object({
+  /** Root URI — must be a file:// URI per the MCP spec */
+  uri: z.string().startsWith("file://", "root uri must start with 'file://'"),
+  /** Optional human-readable name */
+  name: z.string().optional(),
+});
+
+/** How a stdio endpoint's process is restarted after it exits or fails. */
+export const RestartPolicySchema = z.object({
+  /** `on-failure` leaves a process that exited with code 0 stopped */
+  mode: z.enum(["always", "on-failure", "never"]).default("always"),
+  /** Consecutive restart attempts before giving up (0 = unlimited) */
+  maxAttempts: z.number().int().min(0).default(0),
+  /** First backoff delay — doubles on each attempt, ±20 % jitter */
+  initialDelayMs: z.number().int().positive().default(1_000),
+  maxDelayMs: z.number().int().positive().default(60_000),
+  /** A process that dies before running this long counts as a quick failure */
+  minUptimeMs: z.number().int().min(0).default(10_000),
+  /** Consecutive quick failures after which the endpoint is marked `failed` */
+  crashLoopThreshold: z.number().int().positive().default(5),
+});
+
+export type RestartPolicy = z.infer<typeof RestartPolicySchema>;
+
+/** Same shape as `EndpointConfig` pushed by MCP Central, with defaults. */
+export const EndpointConfigSchema = z
+  .object({
+    /** Stable identifier — must not collide with endpoints from MCP Central */
+    id: z.string().min(1, "endpoint id is required"),
+    name: z.string().min(1, "endpoint name is required"),
+    /** Prefix under which the endpoint's tools are exposed */
+    namespace: z.string().min(1, "endpoint namespace is required"),
+    transport: z.enum(["stdio", "streamable-http", "sse"]),
+    url: z
+      .string()
+      .url("endpoint url must be a valid URL")
+      .nullable()
+      .default(null),
+    command: z.string().min(1).nullable().default(null),
+    args: z.array(z.string()).default([]),
+    /** Working directory of a stdio process (`~` is expanded) */
+    cwd: z.string().min(1).nullable().default(null),
+    /** Per-endpoint overrides of the agent-wide `restart` policy */
+    restart: RestartPolicySchema.partial().optional(),
+    /** Overrides `concurrency.maxConcurrentPerEndpoint` for this endpoint */
+    maxConcurrency: z.number().int().positive().optional(),
+    /** OAuth client settings of an HTTP endpoint (see `login`) */
+    oauth: z
+      .object({
+        /** Pre-registered client id, for servers without dynamic registration */
+        clientId: z.string().min(1).optional(),
+        /** Scope requested at login */
+        scope: z.string().min(1).optional(),
+      })
+      .optional(),
+    env: z.record(z.string()).default({}),
+    headers: z.record(z.string()).default({}),
+    isEnabled: z.boolean().default(true),
+  })
+  .refine((e) => (e.transport === "stdio" ? !!e.command : !!e.url), {
+    message: "stdio endpoints need a command, HTTP/SSE endpoints need a url",
+  });
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Constraint on a single tool argument. */
+export const ArgumentGuardSchema = z.object({
+  /** String (or string[]) argument must resolve under one of these paths */
+  pathPrefixes: z.array(z.string().min(1)).min(1).optional(),
+  /** String (or string[]) argument must match this regular expression */
+  pattern: z
+    .string()
+    .refine(isValidRegex, "pattern must be a valid regular expression")
+    .optional(),
+});
+
+export const PolicyRuleSchema = z.object({
+  /** Endpoint namespace glob (`*` and `?` wildcards), default `*` */
+  namespace: z.string().default("*"),
+  /** Tool name globs this rule applies to, default all tools */
+  tools: z.array(z.string()).default(["*"]),
+  /** `confirm` asks on the agent's terminal before running the call */
+  action: z.enum(["allow", "deny", "confirm"]),
+  /** Per-argument guards — a call violating any of them is denied */
+  args: z.record(ArgumentGuardSchema).default({}),
+});
+
+export const PolicyConfigSchema = z.object({
+  /** Action when no rule matches */
+  defaultAction: z.enum(["allow", "deny"]).default("allow"),
+  /** Evaluated in order — the first rule matching namespace and tool wins */
+  rules: z.array(PolicyRuleSchema).default([]),
+  /** How long a `confirm` prompt waits before denying */
+  confirmTimeoutMs: z.number().int().positive().default(60_000),
+});
+
+export type PolicyConfig = z.infer<typeof PolicyConfigSchema>;
+
+export const AuditConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** JSONL file the records are appended to */
+  file: z.string().min(1).default("~/.mcp-central-agent/audit.jsonl"),
+  /** Rotate once the file would grow past this size */
+  maxBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(10 * 1024 * 1024),
+  /** Number of rotated files kept (audit.jsonl.1 … .N) */
+  maxFiles: z.number().int().min(1).default(5),
+  /**
+   * How argument values are stored: HMAC-hashed with a key kept in
+   * `<file>.key`, fully redacted, or as-is
+   */
+  args: z.enum(["hash", "redact", "plain"]).default("hash"),
+  /** Argument keys (globs, case-insensitive) always redacted, at any depth */
+  redactKeys: z
+    .array(z.string())
+    .default(["*token*", "*secret*", "*password*", "*key*", "*auth*"]),
+});
+
+export type AuditConfig = z.infer<typeof AuditConfigSchema>;
+
+export const MetricsConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Interface to bind — keep the default unless scraped from another host */
+  host: z.string().min(1).default("127.0.0.1"),
+  port: z.number().int().min(0).max(65535).default(9464),
+});
+
+export type MetricsConfig = z.infer<typeof MetricsConfigSchema>;
+
+/** Aggregated MCP server for local clients (Streamable HTTP). */
+export const LocalServerConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Interface to bind — anything but loopback exposes every endpoint */
+  host: z.string().min(1).default("127.0.0.1"),
+  port: z.number().int().min(0).max(65535).default(8931),
+  path: z.string().startsWith("/").default("/mcp"),
+  /** Bearer token HTTP clients must send; generated into `tokenFile` when unset */
+  token: z.string().min(16).optional(),
+  /** Where the generated token is kept, mode 0600 */
+  tokenFile: z
+    .string()
+    .min(1)
+    .default("~/.mcp-central-agent/local-server-token"),
+});
+
+export type LocalServerConfig = z.infer<typeof LocalServerConfigSchema>;
+
+/** Bounds on results/status updates buffered while the tunnel is down. */
+export const OutboxConfigSchema = z.object({
+  maxMessages: z.number().int().positive().default(1_000),
+  maxBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(16 * 1024 * 1024),
+  maxAgeMs: z
+    .number()
+    .int()
+    .positive()
+    .default(10 * 60_000),
+});
+
+/** Size limits and framing of results sent over the tunnel. */
+export const ResultsConfigSchema = z.object({
+  /** Results whose JSON is larger fail with code `too_large` */
+  maxBytes: z
+    .number()
+    .int()
+    .positive()
+    .default(8 * 1024 * 1024),
+  /** Results whose JSON is larger are sent in chunks of this size */
+  chunkBytes: z
+    .number()
+    .int()
+    .min(1024, "chunkBytes must be at least 1024")
+    .default(256 * 1024),
+  /** Gzip chunked results when that makes them smaller */
+  compress: z.boolean().default(true),
+});
+
+/** Token storage and redirect listener of OAuth-protected HTTP endpoints. */
+export const OAuthConfigSchema = z.object({
+  /** Client registrations and tokens written by `login`, mode 0600 */
+  tokenFile: z
+    .string()
+    .min(1)
+    .default("~/.mcp-central-agent/oauth-tokens.json"),
+  /** Port of the loopback redirect listener of `login` */
+  callbackPort: z.number().int().min(1).max(65535).default(8976),
+});
+
+export type OAuthConfig = z.infer<typeof OAuthConfigSchema>;
+
+/** Signed server events and sealed results (see e2e.ts). */
+export const E2eConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Agent private key written by `mcp-central-agent keygen` */
+  privateKeyFile: z
+    .string()
+    .min(1)
+    .default("~/.mcp-central-agent/agent-key.pem"),
+  /** How far a call's signed timestamp may be from the agent clock */
+  maxClockSkewMs: z
+    .number()
+    .int()
+    .positive()
+    .default(5 * 60_000),
+});
+
+export type E2eConfig = z.infer<typeof E2eConfigSchema>;
+
+/** Pings and circuit breaker of connected endpoints (see circuit-breaker.ts). */
+export const HealthCheckConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Time between pings of a healthy endpoint */
+  intervalMs: z.number().int().positive().default(30_000),
+  /** A ping unanswered for this long counts as a failure */
+  timeoutMs: z.number().int().positive().default(10_000),
+  /** Consecutive call failures or ping timeouts that mark it `degraded` */
+  failureThreshold: z.number().int().positive().default(3),
+  /** How long calls fail fast before a ping probes the endpoint again */
+  resetTimeoutMs: z.number().int().positive().default(30_000),
+});
+
+export type HealthCheckConfig = z.infer<typeof HealthCheckConfigSchema>;
+
+/** Limits on concurrently executing tool calls and the wait queue. */
+export const ConcurrencyConfigSchema = z.object({
+  maxConcurrentPerEndpoint: z.number().int().positive().default(4),
+  maxConcurrent: z.number().int().positive().default(32),
+  /** Calls waiting for a slot beyond this are rejected as "agent busy" */
+  maxQueueLength: z.number().int().min(0).default(100),
+  queueTimeoutMs: z.number().int().positive().default(30_000),
+});
+
+const ServerUrlSchema = z.string().url("serverUrl must be a valid URL");
+const AgentNameSchema = z.string().min(1, "agentName is required");
+const ApiKeySchema = z
+  .string()
+  .min(10, "apiKey is too short")
+  .refine((k) => k.startsWith("agent_"), {
+    message: "apiKey must start with 'agent_'",
+  });
+
+/** Name of the profile made of the top-level serverUrl/agentName/apiKey. */
+export const DEFAULT_SERVER_PROFILE = "default";
+
+/** One MCP Central server the agent connects to, with its own tunnel. */
+export const ServerProfileSchema = z.object({
+  /** Identifies the profile in logs, metrics and audit records */
+  name: z
     .string()
-    .min(10, "apiKey is too short")
-    .refine((k) => k.startsWith("agent_"), {
-      message: "apiKey must start with 'agent_'",
-    }),
+    .regex(
+      /^[\w.-]+$/,
+      "name may only contain letters, digits, '_', '.' and '-'",
+    ),
+  /** Base URL of the MCP Central server (e.g. https://mcp.example.com) */
+  serverUrl: ServerUrlSchema,
+  /** Display name of this agent on that server */
+  agentName: AgentNameSchema,
+  /** Agent API key issued by that server */
+  apiKey: ApiKeySchema,
+  /** File holding the API key instead — read into `apiKey` by `loadConfig()` */
+  apiKeyFile: z.string().min(1).optional(),
+  /** That server's PEM public key, required with `e2e` */
+  serverPublicKeyFile: z.string().min(1).optional(),
 });
 
+export type ServerProfile = z.infer<typeof ServerProfileSchema>;
+
+export const AgentConfigSchema = z
+  .object({
+    /** Base URL of the MCP Central server (e.g. https://mcp.example.com) */
+    serverUrl: ServerUrlSchema.optional(),
+    /** Display name of this agent — must match the name used when creating the agent */
+    agentName: AgentNameSchema.optional(),
+    /** Agent API key starting with 'agent_' (generated by MCP Central) */
+    apiKey: ApiKeySchema.optional(),
+    /** File holding the API key instead — read into `apiKey` by `loadConfig()` */
+    apiKeyFile: z.string().min(1).optional(),
+    /** PEM public key of the top-level server, required with `e2e` */
+    serverPublicKeyFile: z.string().min(1).optional(),
+    /** Additional MCP Central servers, each reached over its own tunnel */
+    servers: z.array(ServerProfileSchema).optional(),
+    /** Default deadline (ms) for forwarded tool calls that don't carry their own */
+    toolCallTimeoutMs: z
+      .number()
+      .int()
+      .positive("toolCallTimeoutMs must be positive")
+      .optional(),
+    /** Tool call concurrency limits and queueing */
+    concurrency: ConcurrencyConfigSchema.optional(),
+    /** Default restart policy of stdio endpoints */
+    restart: RestartPolicySchema.optional(),
+    /** Pings and circuit breaker of connected endpoints */
+    healthCheck: HealthCheckConfigSchema.optional(),
+    /** Roots answered to local servers when MCP Central provides none */
+    roots: z.array(RootConfigSchema).optional(),
+    /** Append-only JSONL record of every tunneled tool call */
+    audit: AuditConfigSchema.optional(),
+    /** Local HTTP listener serving /healthz, /readyz and /metrics */
+    metrics: MetricsConfigSchema.optional(),
+    /** Serves the endpoints' tools to local MCP clients over HTTP */
+    localServer: LocalServerConfigSchema.optional(),
+    /** Limits of the redelivery buffer used across tunnel disconnects */
+    outbox: OutboxConfigSchema.optional(),
+    /** Size limit, chunking and compression of tunneled results */
+    results: ResultsConfigSchema.optional(),
+    /** Require signed server events and encrypt results to the server */
+    e2e: E2eConfigSchema.optional(),
+    /** Where OAuth tokens of HTTP endpoints are kept */
+    oauth: OAuthConfigSchema.optional(),
+    /** Encrypted secrets file used by `${secret:NAME}` placeholders */
+    secretsFile: z.string().min(1).optional(),
+    /** Local allow/deny rules enforced on every incoming tool call */
+    policy: PolicyConfigSchema.optional(),
+    /** Agent-owned endpoints, started on boot alongside those from MCP Central */
+    endpoints: z
+      .array(EndpointConfigSchema)
+      .optional()
+      .refine(
+        (eps) => !eps || new Set(eps.map((e) => e.id)).size === eps.length,
+        { message: "endpoint ids must be unique" },
+      ),
+  })
+  .superRefine((config, ctx) => {
+    const topLevel = [config.serverUrl, config.agentName, config.apiKey];
+    if (topLevel.some((v) => v !== undefined)) {
+      for (const key of ["serverUrl", "agentName", "apiKey"] as const) {
+        if (config[key] !== undefined) continue;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} is required when serverUrl, agentName or apiKey is set`,
+        });
+      }
+    } else if (!config.servers?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["serverUrl"],
+        message:
+          "serverUrl, agentName and apiKey are required (or list servers)",
+      });
+    }
+
+    const names = (config.servers ?? []).map((s) => s.name);
+    if (config.serverUrl !== undefined) names.unshift(DEFAULT_SERVER_PROFILE);
+    if (new Set(names).size !== names.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["servers"],
+        message: `server profile names must be unique ('${DEFAULT_SERVER_PROFILE}' is the top-level server)`,
+      });
+    }
+
+    if (config.e2e?.enabled) {
+      if (config.serverUrl !== undefined && !config.serverPublicKeyFile) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["serverPublicKeyFile"],
+          message: "serverPublicKeyFile is required when e2e is enabled",
+        });
+      }
+      (config.servers ?? []).forEach((profile, i) => {
+        if (profile.serverPublicKeyFile) return;
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["servers", i, "serverPublicKeyFile"],
+          message: "serverPublicKeyFile is required when e2e is enabled",
+        });
+      });
+    }
+  });
+
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
 
+/**
+ * Every server profile of the config: the top-level server (as
+ * `DEFAULT_SERVER_PROFILE`) followed by the `servers` list.
+ */
+export function serverProfiles(config: AgentConfig): ServerProfile[] {
+  const profiles = [...(config.servers ?? [])];
+  if (config.serverUrl && config.agentName && config.apiKey) {
+    profiles.unshift({
+      name: DEFAULT_SERVER_PROFILE,
+      serverUrl: config.serverUrl,
+      agentName: config.agentName,
+      apiKey: config.apiKey,
+      ...(config.serverPublicKeyFile && {
+        serverPublicKeyFile: config.serverPublicKeyFile,
+      }),
+    });
+  }
+  return profiles;
+}
+
 // ── Config loader ──────────────────────────────────────────────────────────
+//
+// The config is layered, lowest precedence first: schema defaults, the JSON
+// file, `MCP_AGENT_*` env vars, then explicit overrides (the `start` flags).
+// Env var names are the field path in SCREAMING_SNAKE_CASE with `__` between
+// levels — MCP_AGENT_API_KEY, MCP_AGENT_METRICS__PORT. String fields take the
+// value as is; numbers, booleans, objects and arrays are parsed as JSON.
+
+/** Prefix of the env vars that set config fields. */
+export const CONFIG_ENV_PREFIX = "MCP_AGENT_";
+
+/** Env var naming the config file, like `--config`. */
+export const CONFIG_FILE_ENV = "MCP_AGENT_CONFIG";
+
+const DEFAULT_CONFIG_FILE = "mcp-agent.json";
+
+export interface LoadConfigOptions {
+  /** Where `MCP_AGENT_*` vars are read from (default `process.env`) */
+  env?: NodeJS.ProcessEnv;
+  /** Dotted field path → value, applied last (e.g. `metrics.port` → `9464`) */
+  overrides?: Record<string, string>;
+}
 
 /**
- * Loads and validates the agent configuration from a JSON file.
- * Defaults to `mcp-agent.json` in the current working directory.
+ * Path of the config file: `filePath`, else `$MCP_AGENT_CONFIG`, else
+ * `mcp-agent.json` in the working directory. Only that last fallback may be
+ * missing, and only when env vars or overrides carry the config.
  */
-export async function loadConfig(filePath?: string): Promise<AgentConfig> {
-  const configPath = resolve(filePath ?? "mcp-agent.json");
-  let raw: string;
+export function resolveConfigPath(
+  filePath?: string,
+  env: NodeJS.ProcessEnv = process.env,
+): { path: string; explicit: boolean } {
+  const given = filePath ?? env[CONFIG_FILE_ENV];
+  return {
+    path: resolve(expandHome(given ?? DEFAULT_CONFIG_FILE)),
+    explicit: given !== undefined,
+  };
+}
+
+/**
+ * Loads and validates the agent configuration from the file, env var and
+ * override layers described above, reading `apiKeyFile`s into `apiKey`.
+ */
+export async function loadConfig(
+  filePath?: string,
+  options: LoadConfigOptions = {},
+): Promise<AgentConfig> {
+  const env = options.env ?? process.env;
+  const { path: configPath, explicit } = resolveConfigPath(filePath, env);
+  const envFields = configEnvVars(env);
+  const overrides = Object.entries(options.overrides ?? {});
+
+  let raw: string | null = null;
   try {
     raw = await readFile(configPath, "utf-8");
   } catch {
-    throw new Error(
-      `Config file not found: ${configPath}\n` +
-        `Run 'mcp-central-agent init' to create one.`,
-    );
+    if (explicit || (envFields.length === 0 && overrides.length === 0)) {
+      throw new Error(
+        `Config file not found: ${configPath}\n` +
+          `Run 'mcp-central-agent init' to create one.`,
+      );
+    }
   }
 
-  let json: unknown;
-  try {
-    json = JSON.parse(raw);
-  } catch (err) {
-    throw new Error(`Invalid JSON in ${configPath}: ${String(err)}`);
+  let json: unknown = {};
+  if (raw !== null) {
+    try {
+      json = JSON.parse(raw);
+    } catch (err) {
+      throw new Error(`Invalid JSON in ${configPath}: ${String(err)}`);
+    }
+    if (!isRecord(json)) {
+      throw new Error(`Invalid config in ${configPath}: expected an object`);
+    }
+  }
+  const config = json as Record<string, unknown>;
+
+  for (const [name, path] of envFields)
+    setField(config, path, env[name]!, name);
+  for (const [path, value] of overrides) {
+    setField(config, path.split("."), value, `override '${path}'`);
   }
+  await readApiKeyFiles(config);
 
-  const result = AgentConfigSchema.safeParse(json);
+  const result = AgentConfigSchema.safeParse(config);
   if (!result.success) {
+    const sources = [
+      raw !== null ? configPath : null,
+      envFields.length ? `${CONFIG_ENV_PREFIX}* env vars` : null,
+      overrides.length ? "flags" : null,
+    ].filter((s) => s !== null);
     const issues = result.error.issues
       .map((i) => `  • ${i.path.join(".")}: ${i.message}`)
       .join("\n");
-    throw new Error(`Invalid config in ${configPath}:\n${issues}`);
+    throw new Error(`Invalid config in ${sources.join(" + ")}:\n${issues}`);
   }
   return result.data;
 }
+
+/** `MCP_AGENT_*` vars naming a config field, with that field's path. */
+function configEnvVars(env: NodeJS.ProcessEnv): Array<[string, string[]]> {
+  const fields: Array<[string, string[]]> = [];
+  // Sorted so MCP_AGENT_METRICS is applied before MCP_AGENT_METRICS__PORT
+  for (const name of Object.keys(env).sort()) {
+    if (!name.startsWith(CONFIG_ENV_PREFIX) || name === CONFIG_FILE_ENV)
+      continue;
+    if (env[name] === undefined) continue;
+    const path = name
+      .slice(CONFIG_ENV_PREFIX.length)
+      .split("__")
+      .map((part) =>
+        part.toLowerCase().replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase()),
+      );
+    // Other MCP_AGENT_* vars, such as MCP_AGENT_SECRETS_PASSPHRASE
+    if (!fieldSchema(path)) continue;
+    fields.push([name, path]);
+  }
+  return fields;
+}
+
+/** Schema of the field at `path`, unwrapped of optional/default layers. */
+function fieldSchema(path: string[]): z.ZodTypeAny | null {
+  let schema: z.ZodTypeAny = AgentConfigSchema.innerType();
+  for (const key of path) {
+    schema = unwrapSchema(schema);
+    if (!(schema instanceof z.ZodObject)) return null;
+    const shape = schema.shape as z.ZodRawShape;
+    if (!Object.hasOwn(shape, key)) return null;
+    schema = shape[key];
+  }
+  return unwrapSchema(schema);
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  for (;;) {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+      schema = schema.unwrap();
+    } else if (schema instanceof z.ZodDefault) {
+      schema = schema.removeDefault();
+    } else if (schema instanceof z.ZodEffects) {
+      schema = schema.innerType();
+    } else {
+      return schema;
+    }
+  }
+}
+
+/** Sets the field at `path` from a string, parsing non-string fields as JSON. */
+function setField(
+  config: Record<string, unknown>,
+  path: string[],
+  raw: string,
+  source: string,
+): void {
+  const field = path.join(".");
+  const schema = fieldSchema(path);
+  if (!schema) throw new Error(`${source}: unknown config field '${field}'`);
+
+  let value: unknown = raw;
+  if (!(schema instanceof z.ZodString || schema instanceof z.ZodEnum)) {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new Error(`${source}: '${field}' expects a JSON value`);
+    }
+  }
+
+  let parent = config;
+  for (const key of path.slice(0, -1)) {
+    if (!isRecord(parent[key])) parent[key] = {};
+    parent = parent[key] as Record<string, unknown>;
+  }
+  const key = path[path.length - 1];
+  parent[key] = value;
+  // A key from a higher layer replaces a key file from a lower one, and back
+  if (key === "apiKey") delete parent.apiKeyFile;
+  if (key === "apiKeyFile") delete parent.apiKey;
+}
+
+/** Replaces each `apiKeyFile` with the file's trimmed content as `apiKey`. */
+async function readApiKeyFiles(config: Record<string, unknown>): Promise<void> {
+  const servers = Array.isArray(config.servers) ? config.servers : [];
+  for (const target of [config, ...servers.filter(isRecord)]) {
+    const file = target.apiKeyFile;
+    if (typeof file !== "string") continue;
+    if (target.apiKey !== undefined) {
+      throw new Error(`Set either apiKey or apiKeyFile, not both (${file})`);
+    }
+    try {
+      target.apiKey = (await readFile(expandHome(file), "utf-8")).trim();
+    } catch (err) {
+      throw new Error(
+        `Cannot read apiKeyFile ${file}: ${(err as Error).message}`,
+      );
+    }
+    delete target.apiKeyFile;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,540 @@
+import { access, constants } from "fs/promises";
+import { delimiter, isAbsolute, join, resolve } from "path";
+import { io } from "socket.io-client";
+import {
+  loadConfig,
+  resolveConfigPath,
+  serverProfiles,
+  type AgentConfig,
+  type ServerProfile,
+} from "./config.js";
+import {
+  connectionKey,
+  LocalClient,
+  type EndpointConfig,
+} from "./local-client.js";
+import { expandHome } from "./secrets.js";
+import { PayloadCrypto } from "./e2e.js";
+import {
+  joinPayload,
+  negotiate,
+  TUNNEL_CAPABILITIES,
+  type NegotiatedProtocol,
+} from "./protocol.js";
+import { AGENT_VERSION } from "./version.js";
+
+/** Extra detail lines (stderr, placeholders) shown under a failed check. */
+const DETAIL_LINES = 12;
+
+// ── Report types ────────────────────────────────────────────────────────────
+
+export type DoctorStatus = "pass" | "fail" | "skip";
+
+/** What was being probed — decides which hint fits an error. */
+type ProbeTarget = "config" | "server" | "tunnel" | "endpoint";
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  durationMs: number;
+  detail: string;
+  /** What to do about a failure, when we can tell */
+  hint?: string;
+}
+
+export interface DoctorOptions {
+  /** Per-check deadline in ms */
+  timeoutMs: number;
+}
+
+// ── Doctor ──────────────────────────────────────────────────────────────────
+
+/**
+ * Runs the `doctor` checks in order: config, then e2e keys, server
+ * reachability, tunnel join and endpoint list per server profile, then one connection
+ * attempt per endpoint. Later checks are skipped when the ones they depend
+ * on failed.
+ */
+export async function runDoctor(
+  configPath: string | undefined,
+  options: DoctorOptions,
+): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const report = (check: DoctorCheck) => checks.push(check);
+
+  let config: AgentConfig;
+  const configCheck = await timed("Config", "config", async () => {
+    config = await loadConfig(configPath);
+    const local = config.endpoints?.length ?? 0;
+    return `${resolveConfigPath(configPath).path} (${local} local endpoint${local === 1 ? "" : "s"})`;
+  });
+  report(configCheck);
+  if (configCheck.status === "fail") return checks;
+  config = config!;
+
+  // Check names only carry the profile when there is more than one
+  const profiles = serverProfiles(config);
+  const serverEndpoints: EndpointConfig[] = [];
+  for (const profile of profiles) {
+    const suffix = profiles.length > 1 ? ` (${profile.name})` : "";
+    const { e2e } = config;
+    if (e2e?.enabled) {
+      report(
+        await timed(`E2E keys${suffix}`, "config", async () => {
+          await PayloadCrypto.load(
+            e2e.privateKeyFile,
+            profile.serverPublicKeyFile ?? "",
+            { agentName: profile.agentName, maxClockSkewMs: 0 },
+          );
+          return `${expandHome(e2e.privateKeyFile)}, ${expandHome(profile.serverPublicKeyFile ?? "")}`;
+        }),
+      );
+    }
+    const reachable = await timed(`Server reachable${suffix}`, "server", () =>
+      probeServer(profile.serverUrl, options.timeoutMs),
+    );
+    report(reachable);
+
+    if (reachable.status === "fail") {
+      report(skipped(`Tunnel join${suffix}`, "server is not reachable"));
+      continue;
+    }
+    const tunnel = await probeTunnel(
+      profile,
+      suffix,
+      options.timeoutMs,
+      config.e2e?.enabled ?? false,
+    );
+    report(tunnel.join);
+    if (tunnel.endpoints) report(tunnel.endpoints);
+    serverEndpoints.push(...(tunnel.serverEndpoints ?? []));
+  }
+
+  // Like the agent, a server endpoint reusing a local id is ignored and
+  // endpoints with identical connection settings share one connection
+  const local = config.endpoints ?? [];
+  const seen = new Set<string>();
+  const endpoints = [
+    ...local,
+    ...serverEndpoints.filter((s) => !local.some((l) => l.id === s.id)),
+  ].filter((e) => {
+    if (!e.isEnabled) return true;
+    const key = connectionKey(e);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  for (const endpoint of endpoints) {
+    const name = `Endpoint ${endpoint.name}`;
+    if (!endpoint.isEnabled) {
+      report(skipped(name, "disabled"));
+      continue;
+    }
+    report(
+      await timed(name, "endpoint", () =>
+        probeEndpoint(config, endpoint, options),
+      ),
+    );
+  }
+  return checks;
+}
+
+/** True when no check failed. */
+export function doctorPassed(checks: DoctorCheck[]): boolean {
+  return checks.every((c) => c.status !== "fail");
+}
+
+/** Renders checks as an aligned table with hints under failed rows. */
+export function formatDoctorReport(checks: DoctorCheck[]): string {
+  const symbols: Record<DoctorStatus, string> = {
+    pass: "✓ pass",
+    fail: "✗ fail",
+    skip: "- skip",
+  };
+  const width = Math.max(5, ...checks.map((c) => c.name.length));
+  const lines = [
+    `  ${"Check".padEnd(width)}  Result  ${"Time".padStart(7)}  Details`,
+  ];
+  for (const check of checks) {
+    const time =
+      check.status === "skip" ? "" : formatDuration(check.durationMs);
+    const [summary, ...more] = check.detail.split("\n");
+    const indent = " ".repeat(width + 21);
+    lines.push(
+      `  ${check.name.padEnd(width)}  ${symbols[check.status]}  ${time.padStart(7)}  ${summary}`,
+    );
+    // Continuation lines carry stderr tails and unresolved placeholders
+    for (const line of more.slice(0, DETAIL_LINES)) {
+      lines.push(`${indent}${line.trim()}`);
+    }
+    if (check.hint) lines.push(`${indent}→ ${check.hint}`);
+  }
+  const failed = checks.filter((c) => c.status === "fail").length;
+  lines.push(
+    "",
+    failed === 0
+      ? "  All checks passed"
+      : `  ${failed} check${failed === 1 ? "" : "s"} failed`,
+  );
+  return lines.join("\n");
+}
+
+// ── Probes ──────────────────────────────────────────────────────────────────
+
+/** Any HTTP response counts — we only care that the host answers. */
+async function probeServer(url: string, timeoutMs: number): Promise<string> {
+  const response = await fetch(url, {
+    method: "GET",
+    redirect: "manual",
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  await response.body?.cancel();
+  return `${url} answered HTTP ${response.status}`;
+}
+
+/** `, protocol 2` plus the capabilities the server lacks, if any. */
+function describeProtocol(protocol: NegotiatedProtocol): string {
+  const version = protocol.protocolVersion ?? "1 (predates negotiation)";
+  const missing = TUNNEL_CAPABILITIES.filter(
+    (c) => !protocol.capabilities.has(c),
+  );
+  return missing.length > 0
+    ? `, protocol ${version} without ${missing.join(", ")}`
+    : `, protocol ${version}`;
+}
+
+interface TunnelProbe {
+  join: DoctorCheck;
+  endpoints: DoctorCheck | null;
+  serverEndpoints: EndpointConfig[] | null;
+}
+
+/**
+ * Connects to `/agent-tunnel` without reconnection, sends `join` and waits
+ * for the `agent:endpoints` push. The server may send the list before it
+ * acks the join, so both are awaited independently.
+ */
+async function probeTunnel(
+  profile: ServerProfile,
+  suffix: string,
+  timeoutMs: number,
+  e2e: boolean,
+): Promise<TunnelProbe> {
+  const url = profile.serverUrl.replace(/\/$/, "");
+  const startedAt = Date.now();
+  const socket = io(`${url}/agent-tunnel`, {
+    auth: { apiKey: profile.apiKey, version: AGENT_VERSION },
+    transports: ["websocket"],
+    reconnection: false,
+    timeout: timeoutMs,
+  });
+
+  let joinedMs: number | null = null;
+  let protocol: NegotiatedProtocol | null = null;
+  let endpoints: EndpointConfig[] | null = null;
+  let endpointsMs = 0;
+
+  const error = await new Promise<Error | null>((resolve) => {
+    const timer = setTimeout(
+      () =>
+        resolve(
+          new Error(
+            joinedMs === null
+              ? `No answer to join within ${timeoutMs}ms`
+              : `No endpoint list within ${timeoutMs}ms of joining`,
+          ),
+        ),
+      timeoutMs,
+    );
+    const done = (err: Error | null) => {
+      clearTimeout(timer);
+      resolve(err);
+    };
+
+    socket.on("connect_error", (err) => done(err));
+    socket.on("disconnect", (reason) => {
+      if (reason === "io server disconnect") {
+        done(new Error("Server closed the tunnel (unauthorized?)"));
+      }
+    });
+    socket.on("connect", () => {
+      socket.emit("join", joinPayload(e2e), (ack: unknown) => {
+        try {
+          protocol = negotiate(ack, e2e);
+        } catch (err) {
+          done(err as Error);
+          return;
+        }
+        joinedMs = Date.now() - startedAt;
+        if (endpoints) done(null);
+      });
+    });
+    socket.on("agent:endpoints", (list: EndpointConfig[]) => {
+      endpoints = list;
+      endpointsMs = Date.now() - startedAt;
+      if (joinedMs !== null) done(null);
+    });
+  });
+  socket.disconnect();
+
+  const failedAfterMs = Date.now() - startedAt;
+  if (joinedMs === null) {
+    return {
+      join: failed(`Tunnel join${suffix}`, "tunnel", failedAfterMs, error),
+      endpoints: skipped(`Endpoint list${suffix}`, "tunnel join failed"),
+      serverEndpoints: null,
+    };
+  }
+  const join: DoctorCheck = {
+    name: `Tunnel join${suffix}`,
+    status: "pass",
+    durationMs: joinedMs,
+    detail: `API key accepted by ${url}/agent-tunnel${describeProtocol(protocol!)}`,
+  };
+  if (!endpoints) {
+    return {
+      join,
+      endpoints: failed(
+        `Endpoint list${suffix}`,
+        "tunnel",
+        failedAfterMs,
+        error,
+      ),
+      serverEndpoints: null,
+    };
+  }
+  const list: EndpointConfig[] = endpoints;
+  const enabled = list.filter((e) => e.isEnabled).length;
+  return {
+    join,
+    endpoints: {
+      name: `Endpoint list${suffix}`,
+      status: "pass",
+      durationMs: endpointsMs,
+      detail: `${list.length} endpoint${list.length === 1 ? "" : "s"} from MCP Central (${enabled} enabled)`,
+    },
+    serverEndpoints: list,
+  };
+}
+
+/** One connection attempt through `LocalClient`, then a catalog summary. */
+async function probeEndpoint(
+  config: AgentConfig,
+  endpoint: EndpointConfig,
+  options: DoctorOptions,
+): Promise<string> {
+  if (endpoint.transport === "stdio" && endpoint.command) {
+    await assertOnPath(endpoint);
+  }
+
+  let lastError: string | undefined;
+  const client = new LocalClient(
+    endpoint,
+    {
+      onToolsChanged: () => {},
+      onResourcesChanged: () => {},
+      onPromptsChanged: () => {},
+      onStatusChanged: (status, error) => {
+        if (
+          status === "error" ||
+          status === "failed" ||
+          status === "needs_auth"
+        ) {
+          lastError = error;
+        }
+      },
+    },
+    {
+      secrets: { secretsFile: config.secretsFile },
+      restart: config.restart,
+      reconnect: false,
+      oauth: config.oauth,
+    },
+  );
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      client.connect(),
+      new Promise<void>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(
+              new Error(
+                `No answer to initialize within ${options.timeoutMs}ms`,
+              ),
+            ),
+          options.timeoutMs,
+        );
+      }),
+    ]);
+    if (client.status !== "connected") {
+      throw new Error(lastError ?? `Endpoint is ${client.status}`);
+    }
+    const { tools, resources, prompts } = client;
+    return `${endpoint.transport}: ${tools.length} tools, ${resources.length} resources, ${prompts.length} prompts`;
+  } finally {
+    clearTimeout(timer);
+    await client.disconnect().catch(() => {});
+  }
+}
+
+/** Fails early with a clear message when a stdio command can't be found. */
+async function assertOnPath(endpoint: EndpointConfig): Promise<void> {
+  const command = endpoint.command!;
+  const cwd = endpoint.cwd ? expandHome(endpoint.cwd) : process.cwd();
+  const mode = process.platform === "win32" ? constants.F_OK : constants.X_OK;
+  const exts =
+    process.platform === "win32"
+      ? ["", ...(process.env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")]
+      : [""];
+  const executable = async (path: string) => {
+    for (const ext of exts) {
+      try {
+        await access(path + ext, mode);
+        return true;
+      } catch {
+        // try the next extension
+      }
+    }
+    return false;
+  };
+
+  if (isAbsolute(command) || /[\\/]/.test(command)) {
+    if (!(await executable(resolve(cwd, command)))) {
+      throw Object.assign(
+        new Error(`Command '${command}' does not exist or is not executable`),
+        { code: "ENOENT" },
+      );
+    }
+    return;
+  }
+  const path = endpoint.env.PATH ?? process.env.PATH ?? "";
+  for (const dir of path.split(delimiter).filter(Boolean)) {
+    if (await executable(join(dir, command))) return;
+  }
+  throw Object.assign(new Error(`Command '${command}' not found on PATH`), {
+    code: "ENOENT",
+  });
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+async function timed(
+  name: string,
+  target: ProbeTarget,
+  check: () => Promise<string>,
+): Promise<DoctorCheck> {
+  const startedAt = Date.now();
+  try {
+    const detail = await check();
+    return { name, status: "pass", durationMs: Date.now() - startedAt, detail };
+  } catch (err) {
+    return failed(name, target, Date.now() - startedAt, err);
+  }
+}
+
+function failed(
+  name: string,
+  target: ProbeTarget,
+  durationMs: number,
+  err: unknown,
+): DoctorCheck {
+  return {
+    name,
+    status: "fail",
+    durationMs,
+    detail: describeError(err),
+    hint: hintFor(err, target),
+  };
+}
+
+function skipped(name: string, reason: string): DoctorCheck {
+  return { name, status: "skip", durationMs: 0, detail: reason };
+}
+
+/** `fetch` hides the useful part in `cause`, so include it. */
+function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+  const cause = err.cause instanceof Error ? err.cause.message : null;
+  return cause && !err.message.includes(cause)
+    ? `${err.message}: ${cause}`
+    : err.message;
+}
+
+/** Error codes from the error and its `cause` chain. */
+function errorCodes(err: unknown): string[] {
+  const codes: string[] = [];
+  for (let e = err; e && typeof e === "object"; e = (e as Error).cause) {
+    const code = (e as { code?: unknown }).code;
+    if (typeof code === "string") codes.push(code);
+  }
+  return codes;
+}
+
+const TLS_CODES = new Set([
+  "CERT_HAS_EXPIRED",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_GET_ISSUER_CERT",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+/** Maps common failures to the fix a user would try first. */
+function hintFor(err: unknown, target: ProbeTarget): string | undefined {
+  const codes = errorCodes(err);
+  const message = describeError(err);
+
+  if (target === "config") {
+    return /not found/.test(message)
+      ? "Create one with `mcp-central-agent init` or pass --config"
+      : undefined;
+  }
+
+  const tls = codes.find((c) => TLS_CODES.has(c));
+  if (tls || /certificate|self[- ]signed/i.test(message)) {
+    return `TLS certificate problem${tls ? ` (${tls})` : ""} — for a private CA, set NODE_EXTRA_CA_CERTS to its PEM file`;
+  }
+  if (codes.includes("ENOENT") || /\bENOENT\b/.test(message)) {
+    return "Install the command or use an absolute path in `command`";
+  }
+  if (codes.includes("EACCES") || /\bEACCES\b/.test(message)) {
+    return "The command is not executable — check its file permissions";
+  }
+  if (codes.includes("ENOTFOUND") || codes.includes("EAI_AGAIN")) {
+    return "The host name does not resolve — check the URL and your DNS";
+  }
+  if (codes.includes("ECONNREFUSED") || /\bECONNREFUSED\b/.test(message)) {
+    return "Nothing is listening at that address — is the server running?";
+  }
+  if (
+    target === "tunnel" &&
+    /\b40[13]\b|unauthori[sz]ed|forbidden|api key|join rejected|closed the tunnel/i.test(
+      message,
+    )
+  ) {
+    return "The API key was rejected — regenerate it in MCP Central and update `apiKey`";
+  }
+  if (/mcp-central-agent login/.test(message)) {
+    return "The server uses OAuth — sign in once with `mcp-central-agent login <endpoint>`";
+  }
+  if (/\b401\b|unauthori[sz]ed/i.test(message)) {
+    return "Authentication failed — check the credentials in the endpoint's `headers`";
+  }
+  if (/\b403\b|forbidden/i.test(message)) {
+    return "Access denied — the credentials lack permission for this endpoint";
+  }
+  if (/Unresolved secret references/.test(message)) {
+    return "Set the variables, files or secrets referenced in `env`/`headers`";
+  }
+  if (/timeout|timed out|within \d+ms/i.test(message)) {
+    return "No answer in time — check firewalls/proxies or raise --timeout";
+  }
+  return undefined;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1_000 ? `${ms}ms` : `${(ms / 1_000).toFixed(1)}s`;
+}
@@ -0,0 +1,414 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  sign,
+  verify,
+  type KeyObject,
+} from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { expandHome } from "./secrets.js";
+import type {
+  SignedServerEvent,
+  ToolCallPayload,
+  ToolCallSignature,
+} from "./tunnel.js";
+
+// ── End-to-end payload protection ───────────────────────────────────────────
+//
+// With `e2e` enabled, TLS terminators in front of MCP Central can neither
+// read nor forge tool traffic. Both sides hold a P-256 keypair:
+//
+//   • MCP Central signs every `agent:tool_call` (ES256, r‖s encoding) over
+//     the canonical JSON of the call, the target agent name and a timestamp.
+//     Every other server event is signed the same way over
+//     `{ agentName, event, payload, ts }`, its `signature` field left out.
+//     The agent refuses unsigned, badly signed, stale and replayed events.
+//   • The agent seals every `toolResult`, `resourceResult` and
+//     `promptResult` to MCP Central's public key: ephemeral ECDH +
+//     HKDF-SHA256 + AES-256-GCM with the call id as AAD, then signs the
+//     envelope with its own key.
+//
+// `signToolCall()`, `signServerEvent()` and `openSealedPayload()` are the
+// server's half, kept here as the reference implementation.
+
+const CURVE = "prime256v1";
+const SIGNATURE_ENCODING = "ieee-p1363";
+const HKDF_INFO = "mcp-central-agent e2e v1";
+
+/** Thrown for unusable keys and for calls that fail verification. */
+export class E2eError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "E2eError";
+  }
+}
+
+/** Encrypted and signed body of a result event (`{ result }` or `{ error, code? }`). */
+export interface SealedPayload {
+  alg: "ECDH-ES+A256GCM";
+  /** Ephemeral public key, base64 SPKI DER */
+  epk: string;
+  iv: string;
+  tag: string;
+  data: string;
+  /** Agent signature over the fields above and the call id */
+  sig: string;
+}
+
+// ── Keys ────────────────────────────────────────────────────────────────────
+
+/** Creates an agent keypair as PEM (PKCS#8 private, SPKI public). */
+export function generateKeyPair(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", {
+    namedCurve: CURVE,
+  });
+  return {
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+/** Writes a PEM private key with mode 0600, creating its directory. */
+export async function writePrivateKey(
+  filePath: string,
+  pem: string,
+  overwrite = false,
+): Promise<void> {
+  const path = expandHome(filePath);
+  await mkdir(dirname(path), { recursive: true });
+  try {
+    await writeFile(path, pem, {
+      encoding: "utf-8",
+      mode: 0o600,
+      flag: overwrite ? "w" : "wx",
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new E2eError(`${path} already exists (use --force to replace it)`);
+    }
+    throw err;
+  }
+}
+
+async function readKey(
+  filePath: string,
+  kind: "private" | "public",
+): Promise<KeyObject> {
+  const path = expandHome(filePath);
+  let pem: string;
+  try {
+    pem = await readFile(path, "utf-8");
+  } catch {
+    throw new E2eError(`cannot read ${kind} key ${path}`);
+  }
+  let key: KeyObject;
+  try {
+    key = kind === "private" ? createPrivateKey(pem) : createPublicKey(pem);
+  } catch {
+    throw new E2eError(`${path} is not a PEM ${kind} key`);
+  }
+  if (
+    key.asymmetricKeyType !== "ec" ||
+    key.asymmetricKeyDetails?.namedCurve !== CURVE
+  ) {
+    throw new E2eError(`${path} is not a P-256 (prime256v1) key`);
+  }
+  return key;
+}
+
+// ── PayloadCrypto ───────────────────────────────────────────────────────────
+
+export interface PayloadCryptoOptions {
+  /** Agent name the server signs calls for — a call for another agent is rejected */
+  agentName: string;
+  /** How far a call's signed timestamp may be from the agent clock */
+  maxClockSkewMs: number;
+  /**
+   * callId or event signature → signed timestamp of those accepted within
+   * the clock skew window. Pass the same map when the keys are reloaded, or
+   * everything accepted before could be replayed once.
+   */
+  seen?: Map<string, number>;
+}
+
+/**
+ * Verifies calls and events from and seals results to one MCP Central
+ * server. Call ids and event signatures seen within the clock skew window
+ * are remembered to reject replays.
+ */
+export class PayloadCrypto {
+  private readonly _agentKey: KeyObject;
+  private readonly _serverKey: KeyObject;
+  private readonly _options: PayloadCryptoOptions;
+  private readonly _seen: Map<string, number>;
+
+  constructor(
+    agentKey: KeyObject,
+    serverKey: KeyObject,
+    options: PayloadCryptoOptions,
+  ) {
+    this._agentKey = agentKey;
+    this._serverKey = serverKey;
+    this._options = options;
+    this._seen = options.seen ?? new Map();
+  }
+
+  static async load(
+    privateKeyFile: string,
+    serverPublicKeyFile: string,
+    options: PayloadCryptoOptions,
+  ): Promise<PayloadCrypto> {
+    return new PayloadCrypto(
+      await readKey(privateKeyFile, "private"),
+      await readKey(serverPublicKeyFile, "public"),
+      options,
+    );
+  }
+
+  /** Throws `E2eError` unless the call carries a fresh, valid server signature. */
+  verifyToolCall(payload: ToolCallPayload, now = Date.now()): void {
+    this._verify(
+      "tool call",
+      payload.signature,
+      (ts) => toolCallSigningInput(payload, this._options.agentName, ts),
+      payload.callId,
+      now,
+    );
+  }
+
+  /**
+   * Throws `E2eError` unless a server event other than `agent:tool_call`
+   * carries a fresh, valid signature that wasn't seen before.
+   */
+  verifyEvent(event: string, payload: unknown, now = Date.now()): void {
+    const signed = isObject(payload) ? (payload as SignedServerEvent) : {};
+    this._verify(
+      event,
+      signed.signature,
+      (ts) => eventSigningInput(event, payload, this._options.agentName, ts),
+      `${event}:${signed.signature?.sig}`,
+      now,
+    );
+  }
+
+  private _verify(
+    what: string,
+    signature: ToolCallSignature | undefined,
+    input: (ts: number) => Buffer,
+    replayKey: string,
+    now: number,
+  ): void {
+    if (!signature || typeof signature.sig !== "string") {
+      throw new E2eError(`unsigned ${what} rejected`);
+    }
+    if (
+      typeof signature.ts !== "number" ||
+      Math.abs(now - signature.ts) > this._options.maxClockSkewMs
+    ) {
+      throw new E2eError(`${what} signature has expired or is from the future`);
+    }
+    const valid = verify(
+      "sha256",
+      input(signature.ts),
+      { key: this._serverKey, dsaEncoding: SIGNATURE_ENCODING },
+      Buffer.from(signature.sig, "base64"),
+    );
+    if (!valid) throw new E2eError(`invalid ${what} signature`);
+
+    for (const [key, ts] of this._seen) {
+      if (Math.abs(now - ts) > this._options.maxClockSkewMs) {
+        this._seen.delete(key);
+      }
+    }
+    if (this._seen.has(replayKey)) {
+      throw new E2eError(`replayed ${what} rejected`);
+    }
+    this._seen.set(replayKey, signature.ts);
+  }
+
+  /** Encrypts a result body to the server and signs it. */
+  seal(callId: string, body: Record<string, unknown>): SealedPayload {
+    const ephemeral = generateKeyPairSync("ec", { namedCurve: CURVE });
+    const key = deriveKey(
+      diffieHellman({
+        privateKey: ephemeral.privateKey,
+        publicKey: this._serverKey,
+      }),
+    );
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(Buffer.from(callId));
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(body), "utf-8"),
+      cipher.final(),
+    ]);
+    const unsigned = {
+      alg: "ECDH-ES+A256GCM" as const,
+      epk: ephemeral.publicKey
+        .export({ type: "spki", format: "der" })
+        .toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    const sig = sign("sha256", sealSigningInput(callId, unsigned), {
+      key: this._agentKey,
+      dsaEncoding: SIGNATURE_ENCODING,
+    });
+    return { ...unsigned, sig: sig.toString("base64") };
+  }
+}
+
+// ── Server side (reference) ─────────────────────────────────────────────────
+
+/** Signs a tool call for `agentName` as MCP Central does. */
+export function signToolCall(
+  payload: ToolCallPayload,
+  agentName: string,
+  serverPrivateKey: KeyObject | string,
+  ts = Date.now(),
+): ToolCallSignature {
+  const sig = sign("sha256", toolCallSigningInput(payload, agentName, ts), {
+    key: toPrivateKey(serverPrivateKey),
+    dsaEncoding: SIGNATURE_ENCODING,
+  });
+  return { ts, sig: sig.toString("base64") };
+}
+
+/**
+ * Signs a server event for `agentName` as MCP Central does; the result goes
+ * in the event's `signature` field.
+ */
+export function signServerEvent(
+  event: string,
+  payload: Record<string, unknown>,
+  agentName: string,
+  serverPrivateKey: KeyObject | string,
+  ts = Date.now(),
+): ToolCallSignature {
+  const sig = sign("sha256", eventSigningInput(event, payload, agentName, ts), {
+    key: toPrivateKey(serverPrivateKey),
+    dsaEncoding: SIGNATURE_ENCODING,
+  });
+  return { ts, sig: sig.toString("base64") };
+}
+
+/** Checks the agent signature of a sealed body and decrypts it. */
+export function openSealedPayload(
+  callId: string,
+  sealed: SealedPayload,
+  serverPrivateKey: KeyObject | string,
+  agentPublicKey: KeyObject | string,
+): Record<string, unknown> {
+  const { sig, ...unsigned } = sealed;
+  const valid = verify(
+    "sha256",
+    sealSigningInput(callId, unsigned),
+    {
+      key:
+        typeof agentPublicKey === "string"
+          ? createPublicKey(agentPublicKey)
+          : agentPublicKey,
+      dsaEncoding: SIGNATURE_ENCODING,
+    },
+    Buffer.from(sig, "base64"),
+  );
+  if (!valid) throw new E2eError("invalid result signature");
+
+  const key = deriveKey(
+    diffieHellman({
+      privateKey: toPrivateKey(serverPrivateKey),
+      publicKey: createPublicKey({
+        key: Buffer.from(sealed.epk, "base64"),
+        format: "der",
+        type: "spki",
+      }),
+    }),
+  );
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    Buffer.from(sealed.iv, "base64"),
+  );
+  decipher.setAAD(Buffer.from(callId));
+  decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+  const plain = Buffer.concat([
+    decipher.update(Buffer.from(sealed.data, "base64")),
+    decipher.final(),
+  ]);
+  return JSON.parse(plain.toString("utf-8")) as Record<string, unknown>;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function toPrivateKey(key: KeyObject | string): KeyObject {
+  return typeof key === "string" ? createPrivateKey(key) : key;
+}
+
+function deriveKey(shared: Buffer): Buffer {
+  return Buffer.from(
+    hkdfSync("sha256", shared, Buffer.alloc(0), HKDF_INFO, 32),
+  );
+}
+
+function toolCallSigningInput(
+  payload: ToolCallPayload,
+  agentName: string,
+  ts: number,
+): Buffer {
+  const { callId, endpointId, toolName, args, timeoutMs } = payload;
+  return Buffer.from(
+    canonicalJson({
+      agentName,
+      args,
+      callId,
+      endpointId,
+      timeoutMs: timeoutMs ?? null,
+      toolName,
+      ts,
+    }),
+  );
+}
+
+function eventSigningInput(
+  event: string,
+  payload: unknown,
+  agentName: string,
+  ts: number,
+): Buffer {
+  const { signature: _signature, ...rest } = isObject(payload) ? payload : {};
+  return Buffer.from(canonicalJson({ agentName, event, payload: rest, ts }));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sealSigningInput(
+  callId: string,
+  sealed: Omit<SealedPayload, "sig">,
+): Buffer {
+  return Buffer.from(canonicalJson({ callId, ...sealed }));
+}
+
+/** JSON with object keys sorted at every level, so both sides sign the same bytes. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
@@ -0,0 +1,80 @@
+import { createServer, type Server } from "http";
+import { Logger } from "./logger.js";
+
+// ── HealthServer ────────────────────────────────────────────────────────────
+
+export interface HealthServerOptions {
+  host: string;
+  port: number;
+}
+
+export interface HealthProbes {
+  /** Readiness plus a JSON-serializable description of the agent state */
+  ready: () => { ready: boolean; details: unknown };
+  /** Prometheus text exposition */
+  metrics: () => string;
+}
+
+/**
+ * Local HTTP listener exposing `/healthz` (process is alive), `/readyz`
+ * (tunnel joined) and `/metrics`. Binds to 127.0.0.1 unless configured
+ * otherwise — it is meant for local scrapers, not the network.
+ */
+export class HealthServer {
+  private readonly _options: HealthServerOptions;
+  private readonly _probes: HealthProbes;
+  private readonly _log = new Logger("HealthServer");
+  private _server: Server | null = null;
+
+  constructor(options: HealthServerOptions, probes: HealthProbes) {
+    this._options = options;
+    this._probes = probes;
+  }
+
+  async start(): Promise<void> {
+    const server = createServer((req, res) => {
+      const path = (req.url ?? "/").split("?")[0];
+      if (req.method !== "GET" && req.method !== "HEAD") {
+        res.writeHead(405, { Allow: "GET, HEAD" }).end();
+        return;
+      }
+      if (path === "/healthz") {
+        res.writeHead(200, { "Content-Type": "text/plain" }).end("ok\n");
+      } else if (path === "/readyz") {
+        const { ready, details } = this._probes.ready();
+        res
+          .writeHead(ready ? 200 : 503, { "Content-Type": "application/json" })
+          .end(JSON.stringify({ ready, ...Object(details) }) + "\n");
+      } else if (path === "/metrics") {
+        res
+          .writeHead(200, {
+            "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+          })
+          .end(this._probes.metrics());
+      } else {
+        res.writeHead(404, { "Content-Type": "text/plain" }).end("not found\n");
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this._options.port, this._options.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this._server = server;
+    this._log.info(
+      `Listening on http://${this._options.host}:${this._options.port}`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    const server = this._server;
+    this._server = null;
+    if (!server) return;
+    // Scrapers keep connections alive — drop them so close() can complete.
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
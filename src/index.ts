@@ -2,7 +2,67 @@
 export { McpCentralAgent } from "./agent.js";
 export { AgentTunnel } from "./tunnel.js";
 export { LocalClient } from "./local-client.js";
-export { loadConfig, AgentConfigSchema } from "./config.js";
+export {
+  loadConfig,
+  resolveConfigPath,
+  serverProfiles,
+  AgentConfigSchema,
+  EndpointConfigSchema,
+  ServerProfileSchema,
+} from "./config.js";
 export { AGENT_VERSION } from "./version.js";
-export type { AgentConfig } from "./config.js";
+export { PROTOCOL_VERSION, TUNNEL_CAPABILITIES } from "./protocol.js";
+export { resolveSecrets, SecretResolutionError } from "./secrets.js";
+export { ToolPolicy } from "./policy.js";
+export {
+  EndpointOAuthProvider,
+  loginEndpoint,
+  OAuthLoginRequiredError,
+  OAuthTokenStore,
+} from "./oauth.js";
+export {
+  E2eError,
+  generateKeyPair,
+  openSealedPayload,
+  PayloadCrypto,
+  signServerEvent,
+  signToolCall,
+} from "./e2e.js";
+export { CircuitBreaker, CircuitOpenError } from "./circuit-breaker.js";
+export { AuditLog } from "./audit.js";
+export { AgentMetrics } from "./metrics.js";
+export { HealthServer } from "./health-server.js";
+export { SupervisedStdioTransport } from "./stdio-transport.js";
+export { LocalMcpServer } from "./local-server.js";
+export { configureLogging, Logger, registerSecret } from "./logger.js";
+export type { AgentOptions } from "./agent.js";
+export type { TunnelCapability } from "./protocol.js";
+export type { AuditRecord, AuditOutcome } from "./audit.js";
+export type { SealedPayload } from "./e2e.js";
+export type { CircuitState, HealthCheckOptions } from "./circuit-breaker.js";
+export type { EndpointOAuthOptions, OAuthSettings } from "./oauth.js";
+export type { LogFormat, LogLevel, LoggingOptions } from "./logger.js";
+export type {
+  AgentConfig,
+  AuditConfig,
+  E2eConfig,
+  HealthCheckConfig,
+  LoadConfigOptions,
+  LocalServerConfig,
+  MetricsConfig,
+  OAuthConfig,
+  PolicyConfig,
+  RestartPolicy,
+  ServerProfile,
+} from "./config.js";
 export type { EndpointConfig, LocalClientStatus } from "./local-client.js";
+export type {
+  ToolCallPayload,
+  ToolCallSignature,
+  ToolCancelPayload,
+  ToolErrorCode,
+  ResourceReadPayload,
+  PromptGetPayload,
+  ServerRequestKind,
+  SignedServerEvent,
+} from "./tunnel.js";
@@ -1,8 +1,55 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  ListRootsRequestSchema,
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  ClientCapabilities,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+  ListRootsResult,
+  Progress,
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  expandHome,
+  resolveSecrets,
+  SecretResolutionError,
+} from "./secrets.js";
+import type { SecretResolverOptions } from "./secrets.js";
+import { Logger, registerSecrets } from "./logger.js";
+import { RestartPolicySchema, type RestartPolicy } from "./config.js";
+import { describeExit, SupervisedStdioTransport } from "./stdio-transport.js";
+import { unwatchFile, watchFile, type Stats } from "fs";
+import {
+  DEFAULT_OAUTH_SETTINGS,
+  EndpointOAuthProvider,
+  isAuthError,
+  OAuthTokenStore,
+  type EndpointOAuthOptions,
+  type OAuthSettings,
+  type StoredCredentials,
+} from "./oauth.js";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_HEALTH_CHECK_OPTIONS,
+  type CircuitState,
+  type HealthCheckOptions,
+} from "./circuit-breaker.js";
 
 // ── Endpoint config ────────────────────────────────────────────────────────
 
@@ -14,6 +61,14 @@ export interface EndpointConfig {
   url: string | null;
   command: string | null;
   args: string[];
+  /** Working directory of a stdio process */
+  cwd?: string | null;
+  /** Overrides of the agent-wide restart policy (stdio only) */
+  restart?: Partial<RestartPolicy>;
+  /** Concurrent tool calls allowed on this endpoint */
+  maxConcurrency?: number;
+  /** OAuth client settings of an HTTP endpoint */
+  oauth?: EndpointOAuthOptions;
   env: Record<string, string>;
   headers: Record<string, string>;
   isEnabled: boolean;
@@ -25,85 +80,261 @@ export type LocalClientStatus =
   | "disconnected"
   | "connecting"
   | "connected"
-  | "error";
+  | "error"
+  | "failed"
+  | "needs_auth"
+  /** Connected, but the circuit breaker is open — calls fail fast */
+  | "degraded";
+
+export interface CallToolOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /**
+   * Receives `notifications/progress` for this call. Setting it attaches a
+   * progress token to the request and makes each notification reset the
+   * timeout, so long-running tools that keep reporting are not killed.
+   */
+  onProgress?: (progress: Progress) => void;
+}
+
+export interface LocalClientOptions {
+  /** Used to resolve `${secret:…}` placeholders in `env` and `headers` */
+  secrets?: SecretResolverOptions;
+  /** Agent-wide restart policy for stdio endpoints */
+  restart?: RestartPolicy;
+  /** Number of stderr lines kept per stdio endpoint (default 50) */
+  stderrLines?: number;
+  /** Set to false to make a single connection attempt (used by `doctor`) */
+  reconnect?: boolean;
+  /** Token file and redirect port of OAuth-protected HTTP endpoints */
+  oauth?: OAuthSettings;
+  /** Pings and circuit breaker of connected endpoints */
+  healthCheck?: HealthCheckOptions;
+}
+
+/** `env` and `headers` with placeholders substituted. */
+interface ResolvedSecrets {
+  env: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+/** Catalog lists a server can report as changed. */
+type ListKind = "tools" | "resources" | "prompts";
+
+/** A re-list requested by a `list_changed` notification of `client`. */
+interface PendingRelist {
+  client: Client;
+  relist: () => Promise<void>;
+}
 
 // ── Callbacks ─────────────────────────────────────────────────────────────
 
 export interface LocalClientCallbacks {
   onToolsChanged: (tools: Tool[]) => void;
+  onResourcesChanged: (
+    resources: Resource[],
+    resourceTemplates: ResourceTemplate[],
+  ) => void;
+  onPromptsChanged: (prompts: Prompt[]) => void;
   onStatusChanged: (status: LocalClientStatus, error?: string) => void;
+  onReconnectScheduled?: (attempt: number, delayMs: number) => void;
+  /**
+   * Server → client requests. Each capability (`sampling`, `roots`,
+   * `elicitation`) is only advertised to the local server when the matching
+   * handler is provided.
+   */
+  onCreateMessage?: (
+    params: CreateMessageRequest["params"],
+  ) => Promise<CreateMessageResult>;
+  onListRoots?: () => Promise<ListRootsResult>;
+  onElicit?: (params: ElicitRequest["params"]) => Promise<ElicitResult>;
 }
 
 // ── LocalClient ────────────────────────────────────────────────────────────
 
 const RECONNECT_DELAYS = [1_000, 2_000, 5_000, 10_000, 30_000];
 const MAX_RECONNECT_DELAY = 60_000;
+const DEFAULT_STDERR_LINES = 50;
+/** Lines of stderr appended to status errors */
+const STDERR_TAIL_LINES = 10;
+/** How often a `needs_auth` endpoint checks the token file for a new login */
+const TOKEN_WATCH_INTERVAL_MS = 2_000;
 
 export class LocalClient {
-  readonly endpointId: string;
-  readonly config: EndpointConfig;
+  private _config: EndpointConfig;
+  private _log: Logger;
 
   private _client: Client | null = null;
   private _status: LocalClientStatus = "disconnected";
   private _tools: Tool[] = [];
+  private _resources: Resource[] = [];
+  private _resourceTemplates: ResourceTemplate[] = [];
+  private _prompts: Prompt[] = [];
+  /** At most one re-list per kind waits for the session or the running one */
+  private readonly _pendingRelists = new Map<ListKind, PendingRelist>();
+  private readonly _runningRelists = new Set<ListKind>();
   private _destroyed = false;
   private _connecting = false;
   private _reconnectAttempt = 0;
   private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private _stdio: SupervisedStdioTransport | null = null;
+  /** Consecutive stdio failures shorter than `minUptimeMs` */
+  private _quickFailures = 0;
+  private _lastError: string | undefined;
+  private readonly _breaker: CircuitBreaker;
+  private _healthTimer: ReturnType<typeof setTimeout> | null = null;
+  private _tokenWatch: {
+    path: string;
+    listener: (curr: Stats, prev: Stats) => void;
+  } | null = null;
   private readonly _callbacks: LocalClientCallbacks;
+  private readonly _options: LocalClientOptions;
+  private _restartPolicy: RestartPolicy;
 
-  constructor(config: EndpointConfig, callbacks: LocalClientCallbacks) {
-    this.endpointId = config.id;
-    this.config = config;
+  constructor(
+    config: EndpointConfig,
+    callbacks: LocalClientCallbacks,
+    options: LocalClientOptions = {},
+  ) {
+    this._config = config;
+    this._log = this._createLogger(config);
     this._callbacks = callbacks;
+    this._options = options;
+    this._restartPolicy = this._mergeRestartPolicy(config);
+    this._breaker = new CircuitBreaker(
+      this._healthCheck.failureThreshold,
+      (state, reason) => this._onCircuitChange(state, reason),
+    );
+  }
+
+  get config(): EndpointConfig {
+    return this._config;
+  }
+
+  get endpointId(): string {
+    return this._config.id;
   }
 
   get status(): LocalClientStatus {
     return this._status;
   }
 
+  /** Connected, whether or not the circuit breaker is open. */
+  get hasSession(): boolean {
+    return this._status === "connected" || this._status === "degraded";
+  }
+
   get tools(): Tool[] {
     return this._tools;
   }
 
+  get resources(): Resource[] {
+    return this._resources;
+  }
+
+  get resourceTemplates(): ResourceTemplate[] {
+    return this._resourceTemplates;
+  }
+
+  get prompts(): Prompt[] {
+    return this._prompts;
+  }
+
+  /** Recent stderr lines of the stdio process (empty for HTTP/SSE). */
+  get stderr(): string[] {
+    return this._stdio?.stderr.lines() ?? [];
+  }
+
+  /**
+   * Applies a config that differs only in metadata (name, namespace,
+   * restart policy, concurrency) without dropping the session. Callers must check
+   * `requiresReconnect()` first. The id may change too — a client shared by
+   * identical endpoints is handed over when its first endpoint goes away.
+   */
+  updateConfig(config: EndpointConfig): void {
+    if (requiresReconnect(this._config, config)) {
+      throw new Error(
+        `Endpoint ${this.endpointId}: connection settings changed — reconnect instead`,
+      );
+    }
+    this._config = config;
+    this._log = this._createLogger(config);
+    this._restartPolicy = this._mergeRestartPolicy(config);
+  }
+
   // ── Lifecycle ─────────────────────────────────────────────────────────
 
   async connect(): Promise<void> {
     if (this._destroyed || this._connecting) return;
     this._connecting = true;
+    this._pendingRelists.clear();
     this._setStatus("connecting");
+    // Only OAuth endpoints wait for `login` on a 401 — others just retry
+    let authProvider: EndpointOAuthProvider | undefined;
+    // Closed if the attempt fails, so a spawned server doesn't outlive it
+    let client: Client | undefined;
 
     try {
-      const client = new Client(
+      // Placeholders are resolved on every attempt so rotated secrets are
+      // picked up on reconnect.
+      const secrets = await this._resolveSecrets();
+      authProvider = await this._authProvider(secrets.headers);
+      client = new Client(
         {
           name: `mcp-central-agent:${this.config.namespace}`,
           version: "0.1.0",
         },
-        { capabilities: { roots: {}, sampling: {} } },
+        { capabilities: this._clientCapabilities() },
       );
+      this._registerListChangedHandlers(client);
+      this._registerServerRequestHandlers(client);
 
       // For HTTP endpoints: try Streamable HTTP (POST) first, fall back to
       // SSE (GET) if the POST handshake fails — mirrors the backend's
       // UpstreamClient.connectHttp() so the choice is transparent to users.
       let transport:
-        | StdioClientTransport
+        | SupervisedStdioTransport
         | StreamableHTTPClientTransport
         | SSEClientTransport;
       if (this.config.transport === "streamable-http") {
-        transport = await this._connectHttp(client);
+        transport = await this._connectHttp(client, secrets, authProvider);
       } else {
-        transport = this._createTransport();
+        transport = this._createTransport(secrets, authProvider);
         await client.connect(transport);
       }
 
-      this._client = client;
-      this._reconnectAttempt = 0;
-
-      // Discover tools
+      // Discover tools, resources and prompts. Tools are what the endpoint
+      // is for; without resources or prompts it is still usable.
       const response = await client.listTools();
       this._tools = response.tools ?? [];
+      await this._discoverResources(client).catch((err) => {
+        this._log.warn("Failed to list resources", { error: err });
+        this._resources = [];
+        this._resourceTemplates = [];
+      });
+      await this._discoverPrompts(client).catch((err) => {
+        this._log.warn("Failed to list prompts", { error: err });
+        this._prompts = [];
+      });
+      if (this._destroyed) {
+        await client.close().catch(() => {});
+        return;
+      }
+
+      this._client = client;
+      this._reconnectAttempt = 0;
       this._setStatus("connected");
+      this._scheduleHealthCheck();
       this._callbacks.onToolsChanged(this._tools);
+      this._callbacks.onResourcesChanged(
+        this._resources,
+        this._resourceTemplates,
+      );
+      this._callbacks.onPromptsChanged(this._prompts);
+      // Lists that changed while they were being discovered
+      for (const kind of [...this._pendingRelists.keys()]) {
+        void this._drainRelists(kind);
+      }
 
       // Watch for server-side drops.
       // onerror fires when the remote end closes the connection mid-session
@@ -114,32 +345,50 @@ export class LocalClient {
       // One-shot wrappers prevent double-scheduling if both fire together.
       const _onError = (err: Error) => {
         (transport as any).onerror = undefined;
-        if (!this._destroyed && this._status === "connected") {
-          console.warn(
-            `[LocalClient] ${this.config.name}: transport error — ${err?.message ?? err}`,
-          );
-          this._tools = [];
+        if (!this._destroyed && this.hasSession) {
+          if (authProvider && isAuthError(err)) {
+            this._needsAuth(err.message);
+            return;
+          }
+          this._log.warn(`Transport error — ${err?.message ?? err}`);
+          this._clearCatalog();
           this._setStatus("error", err?.message ?? "Transport error");
           this._scheduleReconnect();
         }
       };
       const _onClose = () => {
         (transport as any).onclose = undefined;
-        if (!this._destroyed && this._status === "connected") {
-          console.warn(
-            `[LocalClient] ${this.config.name}: transport closed unexpectedly`,
+        if (!this._destroyed && this.hasSession) {
+          this._log.warn("Transport closed unexpectedly");
+          this._clearCatalog();
+          const exit = this._stdio?.lastExit;
+          this._setStatus(
+            "error",
+            this._withStderr(
+              exit ? describeExit(exit) : "Transport closed unexpectedly",
+            ),
           );
-          this._tools = [];
-          this._setStatus("error", "Transport closed unexpectedly");
           this._scheduleReconnect();
         }
       };
       (transport as any).onerror = _onError;
       transport.onclose = _onClose;
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
+      let message = err instanceof Error ? err.message : String(err);
+      if (authProvider && isAuthError(err)) {
+        await client?.close().catch(() => {});
+        if (!this._destroyed) this._needsAuth(message);
+        return;
+      }
+      const exit = this._stdio?.lastExit;
+      if (exit) message += ` (${describeExit(exit)})`;
+      message = this._withStderr(message);
+      if (client && this._client === client) this._client = null;
+      await client?.close().catch(() => {});
       this._setStatus("error", message);
-      if (!this._destroyed) {
+      // A missing secret won't appear by retrying — fail the endpoint until
+      // it is refreshed or updated.
+      if (!this._destroyed && !(err instanceof SecretResolutionError)) {
         this._scheduleReconnect();
       }
     } finally {
@@ -147,24 +396,86 @@ export class LocalClient {
     }
   }
 
+  /**
+   * Calls a tool on the local server. Aborting `options.signal` or exceeding
+   * `options.timeoutMs` makes the SDK send `notifications/cancelled` to the
+   * server and reject the returned promise.
+   */
   async callTool(
     toolName: string,
     args: Record<string, unknown>,
+    options: CallToolOptions = {},
   ): Promise<unknown> {
     if (!this._client) {
       throw new Error(
         `LocalClient for endpoint ${this.endpointId} is not connected`,
       );
     }
-    const result = await this._client.callTool({
-      name: toolName,
-      arguments: args,
-    });
-    return result;
+    this.assertCircuitClosed();
+    const client = this._client;
+    try {
+      const result = await client.callTool(
+        {
+          name: toolName,
+          arguments: args,
+        },
+        undefined,
+        {
+          signal: options.signal,
+          timeout: options.timeoutMs,
+          onprogress: options.onProgress,
+          resetTimeoutOnProgress: options.onProgress !== undefined,
+        },
+      );
+      if (client === this._client) this._recordOutcome("call");
+      return result;
+    } catch (err) {
+      // Calls the caller gave up on — aborted, or past its own deadline —
+      // say nothing about the server; pings judge an unresponsive one
+      const ownDeadline =
+        err instanceof McpError && err.code === ErrorCode.RequestTimeout;
+      if (client === this._client && !options.signal?.aborted && !ownDeadline) {
+        this._recordOutcome("call", err);
+      }
+      throw err;
+    }
+  }
+
+  async readResource(uri: string): Promise<unknown> {
+    if (!this._client) {
+      throw new Error(
+        `LocalClient for endpoint ${this.endpointId} is not connected`,
+      );
+    }
+    this.assertCircuitClosed();
+    return this._client.readResource({ uri });
+  }
+
+  async getPrompt(
+    promptName: string,
+    args: Record<string, string>,
+  ): Promise<unknown> {
+    if (!this._client) {
+      throw new Error(
+        `LocalClient for endpoint ${this.endpointId} is not connected`,
+      );
+    }
+    this.assertCircuitClosed();
+    return this._client.getPrompt({ name: promptName, arguments: args });
+  }
+
+  /** Throws `CircuitOpenError` while the endpoint is `degraded`. */
+  assertCircuitClosed(): void {
+    if (this._breaker.state === "closed") return;
+    throw new CircuitOpenError(
+      `Endpoint ${this.endpointId} is degraded (${this._breaker.reason}) — ` +
+        `failing fast until a health check succeeds`,
+    );
   }
 
   async disconnect(): Promise<void> {
     this._destroyed = true;
+    this._unwatchTokens();
     if (this._reconnectTimer) {
       clearTimeout(this._reconnectTimer);
       this._reconnectTimer = null;
@@ -178,18 +489,45 @@ export class LocalClient {
 
   // ── Private helpers ───────────────────────────────────────────────────
 
-  private _createTransport() {
-    const { transport, url, command, args, env, headers } = this.config;
+  private async _resolveSecrets(): Promise<ResolvedSecrets> {
+    const { env, headers } = this.config;
+    const resolved = {
+      env: await resolveSecrets(env, this._options.secrets),
+      headers: await resolveSecrets(headers, this._options.secrets),
+    };
+    registerSecrets(resolved.env);
+    registerSecrets(resolved.headers);
+    return resolved;
+  }
+
+  /** Env and header values are kept out of logs, like the resolved ones. */
+  private _createLogger(config: EndpointConfig): Logger {
+    registerSecrets(config.env);
+    registerSecrets(config.headers);
+    return new Logger("LocalClient", {
+      endpoint: config.id,
+      name: config.name,
+    });
+  }
+
+  private _createTransport(
+    { env, headers }: ResolvedSecrets,
+    authProvider: EndpointOAuthProvider | undefined,
+  ) {
+    const { transport, url, command, args, cwd } = this.config;
 
     if (transport === "stdio") {
       if (!command) {
         throw new Error(`stdio endpoint ${this.endpointId} has no command`);
       }
-      return new StdioClientTransport({
+      this._stdio = new SupervisedStdioTransport({
         command,
         args,
         env: { ...process.env, ...env } as Record<string, string>,
+        cwd: cwd ? expandHome(cwd) : undefined,
+        stderrLines: this._options.stderrLines ?? DEFAULT_STDERR_LINES,
       });
+      return this._stdio;
     }
 
     if (transport === "streamable-http") {
@@ -202,6 +540,7 @@ export class LocalClient {
         requestInit: {
           headers: headers as HeadersInit,
         },
+        authProvider,
       });
     }
 
@@ -213,6 +552,7 @@ export class LocalClient {
         requestInit: {
           headers: headers as HeadersInit,
         },
+        authProvider,
       });
     }
 
@@ -230,8 +570,10 @@ export class LocalClient {
    */
   private async _connectHttp(
     client: Client,
+    { headers }: ResolvedSecrets,
+    authProvider: EndpointOAuthProvider | undefined,
   ): Promise<StreamableHTTPClientTransport | SSEClientTransport> {
-    const { url, headers } = this.config;
+    const { url } = this.config;
     if (!url)
       throw new Error(`streamable-http endpoint ${this.endpointId} has no URL`);
 
@@ -241,31 +583,31 @@ export class LocalClient {
     // ── Attempt 1: Streamable HTTP (POST) ──────────────────
     const streamableTransport = new StreamableHTTPClientTransport(parsedUrl, {
       requestInit: reqInit,
+      authProvider,
     });
     try {
       await client.connect(streamableTransport);
-      console.log(
-        `[LocalClient] ${this.config.name}: connected via Streamable HTTP (POST)`,
-      );
+      this._log.info("Connected via Streamable HTTP (POST)");
       return streamableTransport;
-    } catch {
+    } catch (err) {
       // Explicitly close the transport so its underlying fetch/socket is
       // aborted. client.close() alone may not reach the transport if
       // connect() threw before the SDK registered the transport internally.
       streamableTransport.close().catch(() => {});
       await client.close().catch(() => {});
+      // The server answered — SSE would be refused the same way
+      if (authProvider && isAuthError(err)) throw err;
     }
 
     // ── Attempt 2: SSE (GET) fallback ──────────────────────
-    console.log(
-      `[LocalClient] ${this.config.name}: Streamable HTTP failed, retrying via SSE (GET)…`,
-    );
+    this._log.info("Streamable HTTP failed, retrying via SSE (GET)…");
     const sseTransport = new SSEClientTransport(parsedUrl, {
       requestInit: reqInit,
+      authProvider,
     });
     try {
       await client.connect(sseTransport);
-      console.log(`[LocalClient] ${this.config.name}: connected via SSE (GET)`);
+      this._log.info("Connected via SSE (GET)");
       return sseTransport;
     } catch (err) {
       // Same cleanup — abort the dangling fetch so it doesn't fire when the
@@ -276,20 +618,392 @@ export class LocalClient {
     }
   }
 
+  /**
+   * OAuth for HTTP endpoints, backed by the local token file — for endpoints
+   * with `oauth` set or credentials stored by `login`. Endpoints that send
+   * their own `Authorization` header keep using it instead.
+   */
+  private async _authProvider(
+    headers: Record<string, string>,
+  ): Promise<EndpointOAuthProvider | undefined> {
+    const { url, oauth } = this.config;
+    if (!url) return undefined;
+    if (Object.keys(headers).some((h) => h.toLowerCase() === "authorization")) {
+      return undefined;
+    }
+    const settings = this._options.oauth ?? DEFAULT_OAUTH_SETTINGS;
+    const store = new OAuthTokenStore(settings.tokenFile);
+    if (!oauth) {
+      // An unreadable token file only matters to endpoints that use it
+      const stored = await store.get(url).catch((): StoredCredentials => ({}));
+      if (!stored.client && !stored.tokens) return undefined;
+    }
+    return new EndpointOAuthProvider(url, store, {
+      ...oauth,
+      callbackPort: settings.callbackPort,
+      endpointId: this.endpointId,
+    });
+  }
+
+  /**
+   * Stops an endpoint whose server wants a (new) login. Retrying can't help,
+   * so instead the token file is watched for `login` to write new tokens.
+   */
+  private _needsAuth(message: string): void {
+    this._log.warn(message);
+    const client = this._client;
+    this._client = null;
+    client?.close().catch(() => {});
+    this._clearCatalog();
+    this._setStatus("needs_auth", message);
+    this._watchTokens();
+  }
+
+  private _watchTokens(): void {
+    this._unwatchTokens();
+    const { tokenFile } = this._options.oauth ?? DEFAULT_OAUTH_SETTINGS;
+    const path = expandHome(tokenFile);
+    const listener = (curr: Stats, prev: Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs || curr.mtimeMs === 0) return;
+      if (this._destroyed || this._status !== "needs_auth") return;
+      this._unwatchTokens();
+      this._log.info("Token file changed — reconnecting");
+      this.connect().catch(() => {});
+    };
+    watchFile(path, { interval: TOKEN_WATCH_INTERVAL_MS }, listener);
+    this._tokenWatch = { path, listener };
+  }
+
+  private _unwatchTokens(): void {
+    if (!this._tokenWatch) return;
+    unwatchFile(this._tokenWatch.path, this._tokenWatch.listener);
+    this._tokenWatch = null;
+  }
+
+  /**
+   * Lists resources and resource templates if the server advertises the
+   * `resources` capability. Servers without it keep empty lists.
+   */
+  private async _discoverResources(client: Client): Promise<void> {
+    if (!client.getServerCapabilities()?.resources) {
+      this._resources = [];
+      this._resourceTemplates = [];
+      return;
+    }
+    const resources = await client.listResources();
+    this._resources = resources.resources ?? [];
+    // Templates were added to the spec after resources/list — tolerate
+    // servers that implement the latter but not the former.
+    try {
+      const templates = await client.listResourceTemplates();
+      this._resourceTemplates = templates.resourceTemplates ?? [];
+    } catch {
+      this._resourceTemplates = [];
+    }
+  }
+
+  /** Lists prompts if the server advertises the `prompts` capability. */
+  private async _discoverPrompts(client: Client): Promise<void> {
+    if (!client.getServerCapabilities()?.prompts) {
+      this._prompts = [];
+      return;
+    }
+    const response = await client.listPrompts();
+    this._prompts = response.prompts ?? [];
+  }
+
+  /**
+   * Re-lists the catalog when the server reports that its tools, resources
+   * or prompts changed at runtime, without tearing down the connection.
+   */
+  private _registerListChangedHandlers(client: Client): void {
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+      this._relist(client, "tools", async () => {
+        const response = await client.listTools();
+        const tools = response.tools ?? [];
+        if (sameItems(this._tools, tools)) return;
+        this._tools = tools;
+        this._callbacks.onToolsChanged(this._tools);
+      }),
+    );
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+      this._relist(client, "resources", async () => {
+        const previous = [this._resources, this._resourceTemplates] as const;
+        await this._discoverResources(client);
+        if (
+          sameItems(previous[0], this._resources) &&
+          sameItems(previous[1], this._resourceTemplates)
+        ) {
+          return;
+        }
+        this._callbacks.onResourcesChanged(
+          this._resources,
+          this._resourceTemplates,
+        );
+      }),
+    );
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+      this._relist(client, "prompts", async () => {
+        const previous = this._prompts;
+        await this._discoverPrompts(client);
+        if (sameItems(previous, this._prompts)) return;
+        this._callbacks.onPromptsChanged(this._prompts);
+      }),
+    );
+  }
+
+  private _clientCapabilities(): ClientCapabilities {
+    const capabilities: ClientCapabilities = {};
+    if (this._callbacks.onListRoots) capabilities.roots = {};
+    if (this._callbacks.onCreateMessage) capabilities.sampling = {};
+    if (this._callbacks.onElicit) capabilities.elicitation = {};
+    return capabilities;
+  }
+
+  /**
+   * Forwards sampling, roots and elicitation requests issued by the local
+   * server to the host via the callbacks. Rejections are turned into JSON-RPC
+   * errors by the SDK.
+   */
+  private _registerServerRequestHandlers(client: Client): void {
+    const { onCreateMessage, onListRoots, onElicit } = this._callbacks;
+    if (onCreateMessage) {
+      client.setRequestHandler(CreateMessageRequestSchema, (request) =>
+        onCreateMessage(request.params),
+      );
+    }
+    if (onListRoots) {
+      client.setRequestHandler(ListRootsRequestSchema, () => onListRoots());
+    }
+    if (onElicit) {
+      client.setRequestHandler(ElicitRequestSchema, (request) =>
+        onElicit(request.params),
+      );
+    }
+  }
+
+  private _relist(
+    client: Client,
+    kind: ListKind,
+    relist: () => Promise<void>,
+  ): Promise<void> {
+    this._pendingRelists.set(kind, { client, relist });
+    return this._drainRelists(kind);
+  }
+
+  /**
+   * Runs the pending re-list of `kind` once the session is up and no other
+   * of that kind is running, so an older listing can't overwrite a newer
+   * one. Several notifications meanwhile end in a single re-list.
+   */
+  private async _drainRelists(kind: ListKind): Promise<void> {
+    const next = this._pendingRelists.get(kind);
+    if (!next || !this.hasSession || this._runningRelists.has(kind)) return;
+    this._pendingRelists.delete(kind);
+    // From a client that has since been replaced
+    if (next.client !== this._client) return;
+    this._runningRelists.add(kind);
+    try {
+      await next.relist();
+    } catch (err) {
+      this._log.warn(`Failed to re-list ${kind}`, { error: err });
+    } finally {
+      this._runningRelists.delete(kind);
+    }
+    await this._drainRelists(kind);
+  }
+
+  private _clearCatalog(): void {
+    this._tools = [];
+    this._resources = [];
+    this._resourceTemplates = [];
+    this._prompts = [];
+  }
+
   private _setStatus(status: LocalClientStatus, error?: string): void {
+    if (status !== "connected" && status !== "degraded") {
+      this._stopHealthChecks();
+    }
     this._status = status;
+    if (error !== undefined) this._lastError = error;
     this._callbacks.onStatusChanged(status, error);
   }
 
+  /** Appends the tail of the stdio process's stderr to an error message. */
+  private _withStderr(message: string): string {
+    const tail = this.stderr.slice(-STDERR_TAIL_LINES);
+    if (tail.length === 0) return message;
+    this._log.warn(`stderr:\n  ${tail.join("\n  ")}`);
+    return `${message}\n--- stderr (last ${tail.length} lines) ---\n${tail.join("\n")}`;
+  }
+
+  // ── Health checks ─────────────────────────────────────────────────────
+
+  private get _healthCheck(): HealthCheckOptions {
+    return this._options.healthCheck ?? DEFAULT_HEALTH_CHECK_OPTIONS;
+  }
+
+  /** Pings the server `intervalMs` after the previous ping finished. */
+  private _scheduleHealthCheck(): void {
+    const { enabled, intervalMs } = this._healthCheck;
+    if (!enabled || this._destroyed) return;
+    this._clearHealthTimer();
+    this._healthTimer = setTimeout(() => {
+      this._healthTimer = null;
+      void this._ping().then(() => {
+        // An open breaker has scheduled its probe instead
+        if (this._status === "connected" && !this._healthTimer) {
+          this._scheduleHealthCheck();
+        }
+      });
+    }, intervalMs);
+  }
+
+  private async _ping(): Promise<void> {
+    const client = this._client;
+    if (!client) return;
+    try {
+      await client.ping({ timeout: this._healthCheck.timeoutMs });
+      if (client === this._client) this._recordOutcome("ping");
+    } catch (err) {
+      if (client !== this._client) return;
+      this._log.warn(
+        `Health check failed — ${err instanceof Error ? err.message : err}`,
+      );
+      this._recordOutcome("ping", err);
+    }
+  }
+
+  /**
+   * Feeds a call or ping outcome to the breaker. Errors the server answered
+   * with (unknown tool, invalid params…) show it is alive; ping timeouts and
+   * transport failures don't. Call timeouts never get here.
+   */
+  private _recordOutcome(source: "call" | "ping", err?: unknown): void {
+    if (!this._healthCheck.enabled) return;
+    if (
+      err === undefined ||
+      (err instanceof McpError &&
+        err.code !== ErrorCode.RequestTimeout &&
+        err.code !== ErrorCode.ConnectionClosed)
+    ) {
+      this._breaker.recordSuccess();
+      return;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    this._breaker.recordFailure(`${source}: ${message}`);
+  }
+
+  private _onCircuitChange(state: CircuitState, reason?: string): void {
+    if (state === "open") {
+      this._log.warn(`Circuit open — ${reason}`);
+      this._setStatus("degraded", reason);
+      // Half-open probe: one ping decides between closed and open again
+      this._clearHealthTimer();
+      this._healthTimer = setTimeout(() => {
+        this._healthTimer = null;
+        this._breaker.halfOpen();
+        void this._ping();
+      }, this._healthCheck.resetTimeoutMs);
+    } else if (state === "closed") {
+      this._log.info("Circuit closed — endpoint healthy again");
+      this._setStatus("connected");
+      this._scheduleHealthCheck();
+    }
+  }
+
+  private _clearHealthTimer(): void {
+    if (this._healthTimer) {
+      clearTimeout(this._healthTimer);
+      this._healthTimer = null;
+    }
+  }
+
+  /** Stops pinging and closes the breaker for the next session. */
+  private _stopHealthChecks(): void {
+    this._clearHealthTimer();
+    this._breaker.reset();
+  }
+
+  /** Endpoint overrides on top of the agent-wide restart policy. */
+  private _mergeRestartPolicy(config: EndpointConfig): RestartPolicy {
+    return {
+      ...(this._options.restart ?? RestartPolicySchema.parse({})),
+      ...config.restart,
+    };
+  }
+
+  /**
+   * Applies the restart policy to a failed stdio endpoint. Returns false —
+   * after moving the endpoint to its final status — when it must not be
+   * restarted.
+   */
+  private _shouldRestart(): boolean {
+    const policy = this._restartPolicy;
+    const exit = this._stdio?.lastExit ?? null;
+
+    if (policy.mode === "never") {
+      this._setStatus("failed", `${this._lastError} (restart policy: never)`);
+      return false;
+    }
+    if (policy.mode === "on-failure" && exit?.code === 0 && !exit.signal) {
+      this._log.info("Process exited cleanly — not restarting");
+      this._setStatus("disconnected");
+      return false;
+    }
+
+    // A process that never started or died young counts as a quick failure.
+    const quick = !exit || exit.uptimeMs < policy.minUptimeMs;
+    this._quickFailures = quick ? this._quickFailures + 1 : 0;
+    if (this._quickFailures >= policy.crashLoopThreshold) {
+      this._setStatus(
+        "failed",
+        `Crash loop: ${this._quickFailures} failures within ${policy.minUptimeMs / 1000}s of starting — giving up. Last error: ${this._lastError}`,
+      );
+      return false;
+    }
+    if (
+      policy.maxAttempts > 0 &&
+      this._reconnectAttempt >= policy.maxAttempts
+    ) {
+      this._setStatus(
+        "failed",
+        `Gave up after ${policy.maxAttempts} restart attempts. Last error: ${this._lastError}`,
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /** Exponential backoff with ±20 % jitter from the restart policy. */
+  private _restartDelay(): number {
+    const { initialDelayMs, maxDelayMs } = this._restartPolicy;
+    return jitter(
+      Math.min(
+        maxDelayMs,
+        initialDelayMs * 2 ** Math.min(this._reconnectAttempt, 30),
+      ),
+    );
+  }
+
   private _scheduleReconnect(): void {
-    if (this._destroyed) return;
-    const delay =
-      RECONNECT_DELAYS[
-        Math.min(this._reconnectAttempt, RECONNECT_DELAYS.length - 1)
-      ] ?? MAX_RECONNECT_DELAY;
+    if (this._destroyed || this._options.reconnect === false) return;
+    let delay: number;
+    if (this.config.transport === "stdio") {
+      if (!this._shouldRestart()) return;
+      delay = this._restartDelay();
+    } else {
+      // Jittered so endpoints behind one flapping host don't retry in step
+      delay = jitter(
+        RECONNECT_DELAYS[
+          Math.min(this._reconnectAttempt, RECONNECT_DELAYS.length - 1)
+        ] ?? MAX_RECONNECT_DELAY,
+      );
+    }
     this._reconnectAttempt++;
-    console.log(
-      `[LocalClient] Reconnecting ${this.config.name} in ${delay / 1000}s (attempt ${this._reconnectAttempt})…`,
+    this._callbacks.onReconnectScheduled?.(this._reconnectAttempt, delay);
+    this._log.info(
+      `Reconnecting in ${delay / 1000}s (attempt ${this._reconnectAttempt})…`,
     );
     this._reconnectTimer = setTimeout(() => {
       this._reconnectTimer = null;
@@ -297,3 +1011,69 @@ export class LocalClient {
     }, delay);
   }
 }
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Whether two configs of the same endpoint differ in a field that only takes
+ * effect on a new connection (transport, url, command, args, cwd, oauth,
+ * env, headers). Everything else can be updated in place.
+ */
+export function requiresReconnect(
+  current: EndpointConfig,
+  next: EndpointConfig,
+): boolean {
+  return (
+    current.transport !== next.transport ||
+    current.url !== next.url ||
+    current.command !== next.command ||
+    (current.cwd ?? null) !== (next.cwd ?? null) ||
+    JSON.stringify(current.oauth ?? null) !==
+      JSON.stringify(next.oauth ?? null) ||
+    !sameItems(current.args, next.args) ||
+    !sameRecord(current.env, next.env) ||
+    !sameRecord(current.headers, next.headers)
+  );
+}
+
+/**
+ * Identity of an endpoint's connection settings — endpoints with the same key
+ * (e.g. the same server configured in two MCP Central instances) can share
+ * one `LocalClient`.
+ */
+export function connectionKey(endpoint: EndpointConfig): string {
+  const sorted = (record: Record<string, string>) =>
+    Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return JSON.stringify([
+    endpoint.transport,
+    endpoint.url,
+    endpoint.command,
+    endpoint.cwd ?? null,
+    endpoint.oauth ?? null,
+    endpoint.args,
+    sorted(endpoint.env),
+    sorted(endpoint.headers),
+  ]);
+}
+
+/** Spreads a delay by ±20 %. */
+function jitter(delayMs: number): number {
+  return Math.round(delayMs * (0.8 + Math.random() * 0.4));
+}
+
+/** Key-order-insensitive comparison of two string maps. */
+function sameRecord(
+  a: Record<string, string>,
+  b: Record<string, string>,
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((k) => Object.hasOwn(b, k) && a[k] === b[k])
+  );
+}
+
+/** Structural comparison of two catalog lists (order-sensitive). */
+function sameItems(a: readonly unknown[], b: readonly unknown[]): boolean {
+  return a.length === b.length && JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,351 @@
+import { randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { chmod, mkdir, readFile, writeFile } from "fs/promises";
+import { dirname } from "path";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  CallToolResult,
+  Progress,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { LocalServerConfig } from "./config.js";
+import { AGENT_VERSION } from "./version.js";
+import { Logger, registerSecret } from "./logger.js";
+import { expandHome } from "./secrets.js";
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+/** A tool of a connected endpoint, as exposed by the agent. */
+export interface LocalToolEntry {
+  endpointId: string;
+  namespace: string;
+  tool: Tool;
+}
+
+export interface LocalServerHandlers {
+  /** Tools of all connected endpoints, already filtered by policy */
+  tools: () => LocalToolEntry[];
+  /** Runs a call through the same path as tunneled calls. Never throws. */
+  callTool: (
+    endpointId: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    options: { signal: AbortSignal; onProgress: (progress: Progress) => void },
+  ) => Promise<{ result: unknown } | { error: string }>;
+}
+
+/** Exposed tool names are `<namespace>__<tool>`. */
+export const TOOL_NAME_SEPARATOR = "__";
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Requests of the session still open, SSE streams included */
+  openRequests: number;
+  lastActiveAt: number;
+}
+
+/** Sessions with no open request for this long are closed */
+const SESSION_IDLE_MS = 30 * 60_000;
+const SESSION_SWEEP_INTERVAL_MS = 60_000;
+
+// ── LocalMcpServer ──────────────────────────────────────────────────────────
+
+/**
+ * MCP server aggregating the tools of every connected endpoint under their
+ * namespace prefix, for IDEs and scripts on the same machine. Served over the
+ * agent's own stdio and/or Streamable HTTP on localhost; calls are routed to
+ * the endpoints' `LocalClient`s directly, so they work while the tunnel is
+ * down.
+ */
+export class LocalMcpServer {
+  private readonly _handlers: LocalServerHandlers;
+  private readonly _servers = new Set<Server>();
+  private readonly _sessions = new Map<string, HttpSession>();
+  private readonly _log = new Logger("LocalMcpServer");
+  private _httpServer: HttpServer | null = null;
+  private _sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(handlers: LocalServerHandlers) {
+    this._handlers = handlers;
+  }
+
+  /** Serves MCP over this process's stdin/stdout. */
+  async connectStdio(): Promise<void> {
+    const server = this._createServer();
+    await server.connect(new StdioServerTransport());
+    this._log.info("Serving MCP over stdio");
+  }
+
+  /**
+   * Serves MCP over Streamable HTTP, one session per initialized client.
+   * Every request must carry the configured (or a generated) bearer token —
+   * any local process could otherwise call every bridged tool.
+   */
+  async listen(config: LocalServerConfig): Promise<void> {
+    const { host, port, path } = config;
+    const token = config.token ?? (await storedToken(config.tokenFile));
+    registerSecret(token);
+    const httpServer = createServer((req, res) => {
+      if ((req.url ?? "/").split("?")[0] !== path) {
+        res.writeHead(404, { "Content-Type": "text/plain" }).end("not found\n");
+        return;
+      }
+      if (!hasBearerToken(req, token)) {
+        res
+          .writeHead(401, {
+            "Content-Type": "application/json",
+            "WWW-Authenticate": "Bearer",
+          })
+          .end(
+            JSON.stringify({
+              jsonrpc: "2.0",
+              error: { code: -32001, message: "Missing or invalid token" },
+              id: null,
+            }),
+          );
+        return;
+      }
+      this._handleHttp(req, res, config).catch((err) => {
+        this._log.error("HTTP request failed", { error: err });
+        if (!res.headersSent) res.writeHead(500).end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(port, host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+    this._httpServer = httpServer;
+    // Clients that go away without a DELETE would keep their session forever
+    this._sweepTimer = setInterval(
+      () => this._closeIdleSessions(),
+      SESSION_SWEEP_INTERVAL_MS,
+    );
+    this._sweepTimer.unref();
+    this._log.info(`Listening on http://${host}:${port}${path}`);
+    if (!config.token) {
+      this._log.info(
+        `Clients must send the bearer token in ${expandHome(config.tokenFile)}`,
+      );
+    }
+  }
+
+  /** Tells every connected client to re-list tools. */
+  toolsChanged(): void {
+    for (const server of this._servers) {
+      server.sendToolListChanged().catch(() => {
+        // Not initialized yet or already gone — it lists on connect anyway
+      });
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this._sweepTimer) {
+      clearInterval(this._sweepTimer);
+      this._sweepTimer = null;
+    }
+    for (const server of this._servers) {
+      await server.close().catch(() => {});
+    }
+    this._servers.clear();
+    this._sessions.clear();
+    const httpServer = this._httpServer;
+    this._httpServer = null;
+    if (!httpServer) return;
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
+
+  // ── HTTP sessions ─────────────────────────────────────────────────────
+
+  private async _handleHttp(
+    req: IncomingMessage,
+    res: ServerResponse,
+    config: LocalServerConfig,
+  ): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this._sessions.get(sessionId);
+      if (!session) {
+        res.writeHead(404, { "Content-Type": "application/json" }).end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: "Session not found" },
+            id: null,
+          }),
+        );
+        return;
+      }
+      session.openRequests++;
+      res.once("close", () => {
+        session.openRequests--;
+        session.lastActiveAt = Date.now();
+      });
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    // No session yet — the transport rejects anything but `initialize`.
+    const server = this._createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this._sessions.set(id, {
+          server,
+          transport,
+          openRequests: 0,
+          lastActiveAt: Date.now(),
+        });
+      },
+      // Only pages served from this machine may talk to us
+      enableDnsRebindingProtection: true,
+      allowedHosts: [
+        `${config.host}:${config.port}`,
+        `localhost:${config.port}`,
+        `127.0.0.1:${config.port}`,
+        `[::1]:${config.port}`,
+      ],
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this._sessions.delete(transport.sessionId);
+      this._servers.delete(server);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) {
+      // Rejected before a session was created
+      await server.close().catch(() => {});
+    }
+  }
+
+  private _closeIdleSessions(): void {
+    const now = Date.now();
+    for (const [id, session] of this._sessions) {
+      if (
+        session.openRequests > 0 ||
+        now - session.lastActiveAt < SESSION_IDLE_MS
+      ) {
+        continue;
+      }
+      this._log.debug("Closing idle session", { session: id });
+      // The transport's onclose forgets the session
+      session.server.close().catch(() => {});
+    }
+  }
+
+  // ── MCP handlers ──────────────────────────────────────────────────────
+
+  private _createServer(): Server {
+    const server = new Server(
+      { name: "mcp-central-agent", version: AGENT_VERSION },
+      { capabilities: { tools: { listChanged: true } } },
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: [...this._catalog()].map(([name, { tool }]) => ({
+        ...tool,
+        name,
+      })),
+    }));
+
+    server.setRequestHandler(
+      CallToolRequestSchema,
+      async (request, extra): Promise<CallToolResult> => {
+        const { name, arguments: args = {} } = request.params;
+        const entry = this._catalog().get(name);
+        if (!entry) {
+          throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+        }
+        const progressToken = request.params._meta?.progressToken;
+        const outcome = await this._handlers.callTool(
+          entry.endpointId,
+          entry.tool.name,
+          args,
+          {
+            signal: extra.signal,
+            onProgress: (progress) => {
+              if (progressToken === undefined) return;
+              extra
+                .sendNotification({
+                  method: "notifications/progress",
+                  params: { ...progress, progressToken },
+                })
+                .catch(() => {});
+            },
+          },
+        );
+        if ("error" in outcome) {
+          return {
+            content: [{ type: "text", text: outcome.error }],
+            isError: true,
+          };
+        }
+        return outcome.result as CallToolResult;
+      },
+    );
+
+    this._servers.add(server);
+    server.onclose = () => this._servers.delete(server);
+    return server;
+  }
+
+  /**
+   * Prefixed name → tool. If two endpoints share a namespace, the first one
+   * keeps the name.
+   */
+  private _catalog(): Map<string, LocalToolEntry> {
+    const catalog = new Map<string, LocalToolEntry>();
+    for (const entry of this._handlers.tools()) {
+      const name = `${entry.namespace}${TOOL_NAME_SEPARATOR}${entry.tool.name}`;
+      if (!catalog.has(name)) catalog.set(name, entry);
+    }
+    return catalog;
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * The token kept in `filePath`, generated and written with mode 0600 if
+ * there is none yet. Clients read it from there — it is never logged.
+ */
+async function storedToken(filePath: string): Promise<string> {
+  const path = expandHome(filePath);
+  try {
+    const stored = (await readFile(path, "utf-8")).trim();
+    if (stored.length >= 16) return stored;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  const token = randomBytes(24).toString("base64url");
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, token + "\n", { encoding: "utf-8", mode: 0o600 });
+  // `mode` only applies to a new file
+  await chmod(path, 0o600);
+  return token;
+}
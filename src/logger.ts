@@ -0,0 +1,168 @@
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ["pretty", "json"] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/** Structured context attached to a log line (endpoint, server, callId…). */
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingOptions {
+  /** Lines below this level are dropped (default `info`) */
+  level?: LogLevel;
+  /** `pretty` for terminals, `json` for one object per line (default `pretty`) */
+  format?: LogFormat;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+let settings: Required<LoggingOptions> = { level: "info", format: "pretty" };
+
+/** Applies to every logger, including those created earlier. */
+export function configureLogging(options: LoggingOptions): void {
+  settings = { ...settings, ...options };
+}
+
+// ── Redaction ───────────────────────────────────────────────────────────────
+//
+// Two layers keep credentials out of log output:
+//   • fields named like credentials, and every value of `env`/`headers`
+//     objects (as found in EndpointConfig), are replaced wholesale;
+//   • values registered with `registerSecret()` — API keys, endpoint env and
+//     header values before and after placeholder resolution — are scrubbed
+//     from messages and string fields wherever they appear.
+
+const REDACTED = "[REDACTED]";
+
+const SENSITIVE_KEY =
+  /^(api[-_]?key|authorization|cookie|password|passphrase|secret|(access|refresh)?[-_]?token)$/i;
+
+/** Objects whose values are all sensitive, whatever their keys. */
+const SENSITIVE_RECORD = new Set(["env", "headers"]);
+
+/** Shorter values (`1`, `on`…) would mangle unrelated text if scrubbed. */
+const MIN_SECRET_LENGTH = 4;
+
+const MAX_DEPTH = 6;
+
+const secrets = new Set<string>();
+
+/** Scrubs `value` from all future log output. */
+export function registerSecret(value: string | null | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) secrets.add(value);
+}
+
+/** Registers every value of an `env`/`headers` record. */
+export function registerSecrets(values: Record<string, string>): void {
+  for (const value of Object.values(values)) registerSecret(value);
+}
+
+function scrub(text: string): string {
+  let result = text;
+  // Longest first, so a secret containing another is replaced whole
+  for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+    if (result.includes(secret)) result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/** Copy of `value` safe to log: see the redaction rules above. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return scrub(value);
+  if (value instanceof Error) return scrub(value.message);
+  if (typeof value === "bigint") return value.toString();
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[…]";
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (SENSITIVE_KEY.test(key)) {
+      copy[key] = REDACTED;
+    } else if (SENSITIVE_RECORD.has(key) && v && typeof v === "object") {
+      copy[key] = Object.fromEntries(Object.keys(v).map((k) => [k, REDACTED]));
+    } else {
+      copy[key] = redact(v, depth + 1);
+    }
+  }
+  return copy;
+}
+
+// ── Logger ──────────────────────────────────────────────────────────────────
+
+/**
+ * Leveled logger writing one line per call through `console`, so `--stdio`
+ * mode's redirection of `console.log` to stderr still applies. `fields` are
+ * context added to every line, such as the endpoint or server it is about.
+ */
+export class Logger {
+  private readonly _component: string;
+  private readonly _fields: LogFields;
+
+  constructor(component: string, fields: LogFields = {}) {
+    this._component = component;
+    this._fields = fields;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this._write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this._write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this._write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this._write("error", message, fields);
+  }
+
+  private _write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVEL_RANK[level] < LEVEL_RANK[settings.level]) return;
+    const context = redact({ ...this._fields, ...fields }) as LogFields;
+    const msg = scrub(message);
+    const line =
+      settings.format === "json"
+        ? JSON.stringify({
+            ts: new Date().toISOString(),
+            level,
+            component: this._component,
+            msg,
+            ...context,
+          })
+        : formatPretty(level, this._component, msg, context);
+
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  }
+}
+
+function formatPretty(
+  level: LogLevel,
+  component: string,
+  message: string,
+  fields: LogFields,
+): string {
+  const time = new Date().toISOString().slice(11, 23);
+  const context = Object.entries(fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => {
+      const text = typeof v === "string" ? v : JSON.stringify(v);
+      return `${k}=${/^[^\s"=]+$/.test(text) ? text : JSON.stringify(text)}`;
+    });
+  return [
+    `${time} ${level.toUpperCase().padEnd(5)} [${component}] ${message}`,
+    ...context,
+  ].join(" ");
+}
@@ -0,0 +1,279 @@
+import type { LocalClientStatus } from "./local-client.js";
+
+// ── Minimal Prometheus registry ─────────────────────────────────────────────
+//
+// Just enough of the text exposition format for counters, gauges and
+// histograms — avoids pulling a metrics library into a small CLI.
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${escapeLabel(labels[k])}"`)
+    .join(",");
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram",
+  ) {}
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join("\n");
+  }
+}
+
+class Counter extends Metric {
+  private readonly _values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this._values.set(key, (this._values.get(key) ?? 0) + value);
+  }
+
+  samples(): string[] {
+    return [...this._values].map(([key, v]) => series(this.name, key, v));
+  }
+}
+
+class Gauge extends Metric {
+  private readonly _values = new Map<
+    string,
+    { labels: Labels; value: number }
+  >();
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this._values.set(labelKey(labels), { labels, value });
+  }
+
+  inc(labels: Labels, value = 1): void {
+    const key = labelKey(labels);
+    const current = this._values.get(key)?.value ?? 0;
+    this._values.set(key, { labels, value: current + value });
+  }
+
+  /** Drops every series whose labels include all of `labels`. */
+  remove(labels: Labels): void {
+    for (const [key, entry] of this._values) {
+      if (Object.entries(labels).every(([k, v]) => entry.labels[k] === v)) {
+        this._values.delete(key);
+      }
+    }
+  }
+
+  samples(): string[] {
+    return [...this._values].map(([key, { value }]) =>
+      series(this.name, key, value),
+    );
+  }
+}
+
+class Histogram extends Metric {
+  private readonly _buckets: number[];
+  private readonly _values = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help, "histogram");
+    this._buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this._values.get(key);
+    if (!entry) {
+      entry = { counts: this._buckets.map(() => 0), sum: 0, count: 0 };
+      this._values.set(key, entry);
+    }
+    this._buckets.forEach((le, i) => {
+      if (value <= le) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, { counts, sum, count }] of this._values) {
+      const prefix = key ? `${key},` : "";
+      this._buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${le}"} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${count}`);
+      lines.push(series(`${this.name}_sum`, key, sum));
+      lines.push(series(`${this.name}_count`, key, count));
+    }
+    return lines;
+  }
+}
+
+// ── AgentMetrics ────────────────────────────────────────────────────────────
+
+const ENDPOINT_STATUSES: LocalClientStatus[] = [
+  "disconnected",
+  "connecting",
+  "connected",
+  "error",
+  "failed",
+  "needs_auth",
+  "degraded",
+];
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300];
+
+/**
+ * Agent-level metrics fed by `McpCentralAgent` from tunnel, client and tool
+ * call events, rendered on `/metrics`.
+ */
+export class AgentMetrics {
+  private readonly _tunnelConnected = new Gauge(
+    "mcp_agent_tunnel_connected",
+    "1 while the tunnel to an MCP Central server is connected and joined",
+  );
+  private readonly _tunnelReconnects = new Counter(
+    "mcp_agent_tunnel_reconnect_attempts_total",
+    "Tunnel reconnection attempts",
+  );
+  private readonly _endpointInfo = new Gauge(
+    "mcp_agent_endpoint_info",
+    "Static information about each active endpoint",
+  );
+  private readonly _endpointStatus = new Gauge(
+    "mcp_agent_endpoint_status",
+    "Current LocalClient status of each endpoint (1 for the active status)",
+  );
+  private readonly _endpointReconnects = new Counter(
+    "mcp_agent_endpoint_reconnect_attempts_total",
+    "Local endpoint reconnection attempts",
+  );
+  private readonly _toolCalls = new Counter(
+    "mcp_agent_tool_calls_total",
+    "Tool calls handled, by outcome",
+  );
+  private readonly _toolCallDuration = new Histogram(
+    "mcp_agent_tool_call_duration_seconds",
+    "Tool call latency",
+    DURATION_BUCKETS,
+  );
+  private readonly _toolCallsInFlight = new Gauge(
+    "mcp_agent_tool_calls_in_flight",
+    "Tool calls currently executing",
+  );
+  private readonly _toolCallsQueued = new Gauge(
+    "mcp_agent_tool_calls_queued",
+    "Tool calls waiting for a concurrency slot",
+  );
+
+  private readonly _all: Metric[] = [
+    this._tunnelConnected,
+    this._tunnelReconnects,
+    this._endpointInfo,
+    this._endpointStatus,
+    this._endpointReconnects,
+    this._toolCalls,
+    this._toolCallDuration,
+    this._toolCallsInFlight,
+    this._toolCallsQueued,
+  ];
+
+  /** `servers` are the profile names, reported as disconnected until joined. */
+  constructor(servers: string[]) {
+    for (const server of servers) this._tunnelConnected.set({ server }, 0);
+  }
+
+  setTunnelConnected(server: string, connected: boolean): void {
+    this._tunnelConnected.set({ server }, connected ? 1 : 0);
+  }
+
+  tunnelReconnectAttempt(server: string): void {
+    this._tunnelReconnects.inc({ server });
+  }
+
+  /** Drops the connection gauge of a server profile removed by a reload. */
+  removeServer(server: string): void {
+    this._tunnelConnected.remove({ server });
+  }
+
+  setEndpointStatus(
+    endpoint: { id: string; name: string; namespace: string },
+    status: LocalClientStatus,
+  ): void {
+    this._endpointInfo.remove({ endpoint: endpoint.id });
+    this._endpointInfo.set(
+      {
+        endpoint: endpoint.id,
+        name: endpoint.name,
+        namespace: endpoint.namespace,
+      },
+      1,
+    );
+    for (const s of ENDPOINT_STATUSES) {
+      this._endpointStatus.set(
+        { endpoint: endpoint.id, status: s },
+        s === status ? 1 : 0,
+      );
+    }
+  }
+
+  endpointReconnectAttempt(endpointId: string): void {
+    this._endpointReconnects.inc({ endpoint: endpointId });
+  }
+
+  removeEndpoint(endpointId: string): void {
+    this._endpointInfo.remove({ endpoint: endpointId });
+    this._endpointStatus.remove({ endpoint: endpointId });
+  }
+
+  toolCallStarted(endpointId: string): void {
+    this._toolCallsInFlight.inc({ endpoint: endpointId });
+  }
+
+  toolCallFinished(
+    endpointId: string,
+    outcome: string,
+    durationMs: number,
+  ): void {
+    this._toolCallsInFlight.inc({ endpoint: endpointId }, -1);
+    this._toolCalls.inc({ endpoint: endpointId, outcome });
+    this._toolCallDuration.observe({ endpoint: endpointId }, durationMs / 1000);
+  }
+
+  setQueueDepth(endpointId: string, queued: number): void {
+    this._toolCallsQueued.set({ endpoint: endpointId }, queued);
+  }
+
+  /** Prometheus text exposition format (version 0.0.4). */
+  render(): string {
+    return this._all.map((m) => m.render()).join("\n") + "\n";
+  }
+}
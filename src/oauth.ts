@@ -0,0 +1,340 @@
+import { randomBytes } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { createServer } from "http";
+import { dirname } from "path";
+import {
+  auth,
+  UnauthorizedError,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import { StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SseError } from "@modelcontextprotocol/sdk/client/sse.js";
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { expandHome } from "./secrets.js";
+
+// ── OAuth for HTTP endpoints ────────────────────────────────────────────────
+//
+// Remote MCP servers that require OAuth get an `OAuthClientProvider` backed
+// by a local token file. `mcp-central-agent login <endpoint>` runs the
+// authorization-code + PKCE flow once, with a loopback listener as redirect
+// URI; the running agent then only sends and refreshes the stored tokens.
+// When there are none, or refreshing fails, the agent cannot open a browser —
+// the provider throws `OAuthLoginRequiredError` and the endpoint is reported
+// as `needs_auth` until `login` writes new tokens.
+
+/** Agent-wide OAuth settings (`oauth` in the config). */
+export interface OAuthSettings {
+  /** JSON file holding client registrations and tokens, keyed by endpoint URL */
+  tokenFile: string;
+  /** Port of the loopback redirect listener used by `login` */
+  callbackPort: number;
+}
+
+export const DEFAULT_OAUTH_SETTINGS: OAuthSettings = {
+  tokenFile: "~/.mcp-central-agent/oauth-tokens.json",
+  callbackPort: 8976,
+};
+
+/** Per-endpoint OAuth options (`oauth` of an endpoint). */
+export interface EndpointOAuthOptions {
+  /** Pre-registered client id, for servers without dynamic registration */
+  clientId?: string;
+  /** Scope requested at login */
+  scope?: string;
+}
+
+/** Stored tokens are missing or can't be refreshed — `login` is needed. */
+export class OAuthLoginRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OAuthLoginRequiredError";
+  }
+}
+
+/** True for failures that another connection attempt won't fix. */
+export function isAuthError(err: unknown): boolean {
+  return (
+    err instanceof OAuthLoginRequiredError ||
+    err instanceof UnauthorizedError ||
+    ((err instanceof StreamableHTTPError || err instanceof SseError) &&
+      err.code === 401)
+  );
+}
+
+// ── Token store ─────────────────────────────────────────────────────────────
+
+/** What is kept per endpoint URL. */
+export interface StoredCredentials {
+  client?: OAuthClientInformationMixed;
+  tokens?: OAuthTokens;
+  /** Epoch ms the access token expires at, when the server said */
+  expiresAt?: number;
+}
+
+/**
+ * File-backed credentials, written with mode 0600. The file is re-read on
+ * every access since `login` and the agent update it from two processes.
+ */
+export class OAuthTokenStore {
+  readonly path: string;
+  /** Serializes this process's read-modify-write cycles */
+  private _writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.path = expandHome(filePath);
+  }
+
+  async get(resource: string): Promise<StoredCredentials> {
+    return (await this._read())[resource] ?? {};
+  }
+
+  /** Applies `change` to the credentials of `resource`; `undefined` drops them. */
+  update(
+    resource: string,
+    change: (current: StoredCredentials) => StoredCredentials | undefined,
+  ): Promise<void> {
+    const write = this._writes.then(async () => {
+      const all = await this._read();
+      const next = change(all[resource] ?? {});
+      if (next) all[resource] = next;
+      else delete all[resource];
+      await mkdir(dirname(this.path), { recursive: true });
+      const temp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(all, null, 2) + "\n", {
+        encoding: "utf-8",
+        mode: 0o600,
+      });
+      await rename(temp, this.path);
+    });
+    this._writes = write.catch(() => {});
+    return write;
+  }
+
+  private async _read(): Promise<Record<string, StoredCredentials>> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw err;
+    }
+    try {
+      return JSON.parse(raw) as Record<string, StoredCredentials>;
+    } catch {
+      throw new Error(`${this.path} is not valid JSON`);
+    }
+  }
+}
+
+// ── Provider ────────────────────────────────────────────────────────────────
+
+export interface EndpointOAuthProviderOptions extends EndpointOAuthOptions {
+  callbackPort: number;
+  /** Shown in the login hint of `OAuthLoginRequiredError` */
+  endpointId: string;
+  /**
+   * Set by `login` only: receives the authorization URL to open. Without it
+   * the provider never starts an interactive flow.
+   */
+  onAuthorizationUrl?: (url: URL) => void;
+}
+
+/** `OAuthClientProvider` for one endpoint URL, backed by `OAuthTokenStore`. */
+export class EndpointOAuthProvider implements OAuthClientProvider {
+  private readonly _resource: string;
+  private readonly _store: OAuthTokenStore;
+  private readonly _options: EndpointOAuthProviderOptions;
+  private readonly _state = randomBytes(16).toString("hex");
+  private _codeVerifier: string | null = null;
+
+  constructor(
+    resource: string,
+    store: OAuthTokenStore,
+    options: EndpointOAuthProviderOptions,
+  ) {
+    this._resource = resource;
+    this._store = store;
+    this._options = options;
+  }
+
+  get redirectUrl(): string {
+    return `http://127.0.0.1:${this._options.callbackPort}/callback`;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: "mcp-central-agent",
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+      ...(this._options.scope && { scope: this._options.scope }),
+    };
+  }
+
+  state(): string {
+    return this._state;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformationMixed | undefined> {
+    const { client } = await this._store.get(this._resource);
+    if (client) return client;
+    if (this._options.clientId) return { client_id: this._options.clientId };
+    // Checked here so the agent never registers a client on its own
+    if (!this._options.onAuthorizationUrl) throw this._loginRequired();
+    return undefined;
+  }
+
+  async saveClientInformation(
+    client: OAuthClientInformationMixed,
+  ): Promise<void> {
+    await this._store.update(this._resource, (c) => ({ ...c, client }));
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    // `login` always signs in again; the stored tokens are only replaced
+    // once new ones are saved
+    if (this._options.onAuthorizationUrl) return undefined;
+    const { tokens, expiresAt } = await this._store.get(this._resource);
+    // Would only earn a 401 — a token with a refresh token is sent anyway,
+    // and the 401 makes the SDK refresh it
+    if (
+      tokens &&
+      !tokens.refresh_token &&
+      expiresAt !== undefined &&
+      expiresAt <= Date.now()
+    ) {
+      throw this._loginRequired();
+    }
+    return tokens;
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await this._store.update(this._resource, (c) => ({
+      ...c,
+      tokens,
+      expiresAt:
+        tokens.expires_in !== undefined
+          ? Date.now() + tokens.expires_in * 1000
+          : undefined,
+    }));
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    if (!this._options.onAuthorizationUrl) throw this._loginRequired();
+    this._options.onAuthorizationUrl(authorizationUrl);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this._codeVerifier = codeVerifier;
+  }
+
+  codeVerifier(): string {
+    if (!this._codeVerifier) throw new Error("No PKCE code verifier saved");
+    return this._codeVerifier;
+  }
+
+  async invalidateCredentials(
+    scope: "all" | "client" | "tokens" | "verifier" | "discovery",
+  ): Promise<void> {
+    if (scope === "verifier") this._codeVerifier = null;
+    // During `login` the old tokens stay until new ones are saved, so a
+    // failed login doesn't sign out a working endpoint
+    const keepTokens = Boolean(this._options.onAuthorizationUrl);
+    if (scope === "all" && !keepTokens) {
+      await this._store.update(this._resource, () => undefined);
+    } else if (scope === "client" || scope === "all") {
+      await this._store.update(this._resource, ({ client: _, ...c }) => c);
+    } else if (scope === "tokens" && !keepTokens) {
+      await this._store.update(this._resource, ({ client }) => ({ client }));
+    }
+  }
+
+  private _loginRequired(): OAuthLoginRequiredError {
+    return new OAuthLoginRequiredError(
+      `Authorization required — run 'mcp-central-agent login ${this._options.endpointId}'`,
+    );
+  }
+}
+
+// ── Login ───────────────────────────────────────────────────────────────────
+
+export interface OAuthLoginOptions extends EndpointOAuthOptions {
+  store: OAuthTokenStore;
+  callbackPort: number;
+  endpointId: string;
+  /** Called with the URL the user has to open in a browser */
+  onAuthorizationUrl: (url: URL) => void;
+  /** How long to wait for the redirect (default 5 minutes) */
+  timeoutMs?: number;
+}
+
+/**
+ * Runs the authorization-code + PKCE flow for one endpoint URL and stores
+ * the tokens. The user always signs in again; existing tokens are kept
+ * until the new ones are saved, so a cancelled or failed login changes
+ * nothing.
+ */
+export async function loginEndpoint(
+  url: string,
+  options: OAuthLoginOptions,
+): Promise<void> {
+  const { store, callbackPort, timeoutMs = 5 * 60_000 } = options;
+  const provider = new EndpointOAuthProvider(url, store, options);
+
+  let resolveCode!: (code: string) => void;
+  let rejectCode!: (err: Error) => void;
+  const code = new Promise<string>((resolve, reject) => {
+    resolveCode = resolve;
+    rejectCode = reject;
+  });
+  const listener = createServer((req, res) => {
+    const query = new URL(req.url ?? "/", provider.redirectUrl).searchParams;
+    if (!req.url?.startsWith("/callback")) {
+      res.writeHead(404).end();
+      return;
+    }
+    const error = query.get("error");
+    const received = query.get("code");
+    res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+    if (error || !received || query.get("state") !== provider.state()) {
+      res.end("Authorization failed — check the terminal.");
+      rejectCode(
+        new Error(
+          error
+            ? `Authorization denied: ${query.get("error_description") ?? error}`
+            : "Invalid authorization redirect (missing code or state mismatch)",
+        ),
+      );
+      return;
+    }
+    res.end("Authorized — you can close this window.");
+    resolveCode(received);
+  });
+  await new Promise<void>((resolve, reject) => {
+    listener.once("error", reject);
+    listener.listen(callbackPort, "127.0.0.1", () => resolve());
+  });
+
+  const timer = setTimeout(
+    () => rejectCode(new Error(`No authorization within ${timeoutMs}ms`)),
+    timeoutMs,
+  );
+  try {
+    const result = await auth(provider, {
+      serverUrl: url,
+      scope: options.scope,
+    });
+    if (result === "AUTHORIZED") return;
+    const authorizationCode = await code;
+    await auth(provider, { serverUrl: url, authorizationCode });
+  } finally {
+    clearTimeout(timer);
+    listener.closeAllConnections();
+    await new Promise<void>((resolve) => listener.close(() => resolve()));
+  }
+}
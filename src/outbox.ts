@@ -0,0 +1,172 @@
+import { randomUUID } from "crypto";
+import { Logger } from "./logger.js";
+
+// ── Outbox ──────────────────────────────────────────────────────────────────
+
+export interface OutboxLimits {
+  /** Maximum number of queued messages */
+  maxMessages: number;
+  /** Maximum total JSON size of queued payloads */
+  maxBytes: number;
+  /** Messages older than this are dropped instead of redelivered */
+  maxAgeMs: number;
+}
+
+export const DEFAULT_OUTBOX_LIMITS: OutboxLimits = {
+  maxMessages: 1_000,
+  maxBytes: 16 * 1024 * 1024,
+  maxAgeMs: 10 * 60_000,
+};
+
+export interface OutboxEntry {
+  /** Sent to the server as `deliveryId` so it can drop duplicates */
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  queuedAt: number;
+  bytes: number;
+  /** Entries sharing a key supersede each other (e.g. status per endpoint) */
+  key?: string;
+  /**
+   * Entries of one group (the chunks and closing frame of a result) are
+   * evicted together — a partial set would be useless to the server.
+   */
+  group?: string;
+}
+
+export interface OutboxMessage {
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Bounded FIFO of tunnel messages awaiting a server acknowledgement. Entries
+ * stay queued until acked, so anything emitted just before or during a
+ * disconnect is replayed after the next `join`.
+ */
+export class Outbox {
+  private readonly _limits: OutboxLimits;
+  private readonly _entries = new Map<string, OutboxEntry>();
+  private readonly _log: Logger;
+  private _bytes = 0;
+
+  constructor(limits: OutboxLimits, log: Logger = new Logger("Outbox")) {
+    this._limits = limits;
+    this._log = log;
+  }
+
+  get size(): number {
+    return this._entries.size;
+  }
+
+  /** Queues a message, evicting the oldest ones if limits are exceeded. */
+  push(
+    event: string,
+    payload: Record<string, unknown>,
+    key?: string,
+  ): OutboxEntry {
+    if (key !== undefined) {
+      for (const entry of this._entries.values()) {
+        if (entry.key === key) this.remove(entry.id);
+      }
+    }
+
+    const entry = this._add(event, payload, Date.now(), key);
+    this._evict(entry);
+    return entry;
+  }
+
+  /**
+   * Queues messages that are only useful together. Returns them, or none if
+   * together they exceed the limits and were dropped right away.
+   */
+  pushGroup(group: string, messages: OutboxMessage[]): OutboxEntry[] {
+    const queuedAt = Date.now();
+    const entries = messages.map(({ event, payload }) =>
+      this._add(event, payload, queuedAt, undefined, group),
+    );
+    if (entries.length > 0) this._evict(entries[entries.length - 1]);
+    return entries.filter((e) => this._entries.has(e.id));
+  }
+
+  /** Removes an entry once the server acknowledged it. */
+  remove(id: string): void {
+    const entry = this._entries.get(id);
+    if (!entry) return;
+    this._entries.delete(id);
+    this._bytes -= entry.bytes;
+  }
+
+  /** Drops expired entries and returns the rest in queue order. */
+  pending(): OutboxEntry[] {
+    const cutoff = Date.now() - this._limits.maxAgeMs;
+    let expired = 0;
+    for (const entry of this._entries.values()) {
+      if (entry.queuedAt < cutoff) {
+        this.remove(entry.id);
+        expired++;
+      }
+    }
+    if (expired > 0) {
+      this._log.warn(`Dropped ${expired} expired undelivered message(s)`);
+    }
+    return [...this._entries.values()];
+  }
+
+  private _add(
+    event: string,
+    payload: Record<string, unknown>,
+    queuedAt: number,
+    key?: string,
+    group?: string,
+  ): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: randomUUID(),
+      event,
+      payload,
+      queuedAt,
+      bytes: Buffer.byteLength(JSON.stringify(payload) ?? ""),
+      key,
+      group,
+    };
+    this._entries.set(entry.id, entry);
+    this._bytes += entry.bytes;
+    return entry;
+  }
+
+  /**
+   * Drops the oldest entries — whole groups at a time — until the limits
+   * hold. A lone message is kept even if it is too big; a group is not.
+   */
+  private _evict(newest: OutboxEntry): void {
+    let dropped = 0;
+    while (
+      this._entries.size > this._limits.maxMessages ||
+      this._bytes > this._limits.maxBytes
+    ) {
+      const oldest = this._entries.values().next().value as OutboxEntry;
+      if (oldest === newest && oldest.group === undefined) break;
+      if (oldest.group === undefined) {
+        this.remove(oldest.id);
+        dropped++;
+        continue;
+      }
+      for (const entry of [...this._entries.values()]) {
+        if (entry.group !== oldest.group) continue;
+        this.remove(entry.id);
+        dropped++;
+      }
+      if (oldest.group === newest.group) break;
+    }
+    if (dropped > 0) {
+      this._log.warn(
+        `Limit reached — dropped ${dropped} undelivered message(s)`,
+      );
+    }
+  }
+
+  clear(): void {
+    this._entries.clear();
+    this._bytes = 0;
+  }
+}
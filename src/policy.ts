@@ -0,0 +1,208 @@
+import { realpathSync } from "fs";
+import { homedir } from "os";
+import { createInterface } from "readline";
+import { dirname, isAbsolute, join, parse, relative, resolve, sep } from "path";
+import type { PolicyConfig } from "./config.js";
+import { expandHome } from "./secrets.js";
+
+// ── Policy decisions ────────────────────────────────────────────────────────
+
+export type PolicyDecision =
+  | { action: "allow" }
+  | { action: "deny"; reason: string }
+  | { action: "confirm" };
+
+type PolicyRule = PolicyConfig["rules"][number];
+type ArgumentGuard = PolicyRule["args"][string];
+
+// ── ToolPolicy ──────────────────────────────────────────────────────────────
+
+/**
+ * Evaluates the `policy` section of the agent config against tool calls
+ * arriving over the tunnel. Without a policy every call is allowed.
+ */
+export class ToolPolicy {
+  private readonly _config: PolicyConfig | undefined;
+
+  constructor(config: PolicyConfig | undefined) {
+    this._config = config;
+  }
+
+  get confirmTimeoutMs(): number {
+    return this._config?.confirmTimeoutMs ?? 60_000;
+  }
+
+  /** Whether any rule asks on the agent's terminal before a call runs. */
+  get hasConfirmRules(): boolean {
+    return (this._config?.rules ?? []).some((r) => r.action === "confirm");
+  }
+
+  /**
+   * Whether a tool should be announced to MCP Central. Tools that can never
+   * be called (denied outright, no argument guards involved) are hidden.
+   */
+  isToolVisible(namespace: string, toolName: string): boolean {
+    const rule = this._findRule(namespace, toolName);
+    if (rule) return rule.action !== "deny";
+    return (this._config?.defaultAction ?? "allow") === "allow";
+  }
+
+  /**
+   * Decides whether a call may run. Relative path arguments are resolved
+   * against `cwd` — the endpoint's working directory — or the agent's own.
+   */
+  evaluate(
+    namespace: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    cwd?: string | null,
+  ): PolicyDecision {
+    const rule = this._findRule(namespace, toolName);
+    if (!rule) {
+      return (this._config?.defaultAction ?? "allow") === "allow"
+        ? { action: "allow" }
+        : { action: "deny", reason: `no rule allows ${namespace}/${toolName}` };
+    }
+    if (rule.action === "deny") {
+      return { action: "deny", reason: `${namespace}/${toolName} is denied` };
+    }
+    for (const [argName, guard] of Object.entries(rule.args)) {
+      const violation = checkGuard(argName, guard, args[argName], cwd);
+      if (violation) return { action: "deny", reason: violation };
+    }
+    return { action: rule.action };
+  }
+
+  private _findRule(namespace: string, toolName: string): PolicyRule | null {
+    for (const rule of this._config?.rules ?? []) {
+      if (
+        matchesGlob(rule.namespace, namespace) &&
+        rule.tools.some((pattern) => matchesGlob(pattern, toolName))
+      ) {
+        return rule;
+      }
+    }
+    return null;
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Glob match supporting `*` (any run) and `?` (any single character). */
+export function matchesGlob(pattern: string, value: string): boolean {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/**
+ * Returns a reason if `value` violates the guard. Absent arguments pass —
+ * there is nothing to constrain — but non-string values are rejected since
+ * they cannot be checked.
+ */
+function checkGuard(
+  argName: string,
+  guard: ArgumentGuard,
+  value: unknown,
+  cwd?: string | null,
+): string | null {
+  if (value === undefined) return null;
+  const values = Array.isArray(value) ? value : [value];
+  for (const v of values) {
+    if (typeof v !== "string") {
+      return `argument '${argName}' must be a string to be checked`;
+    }
+    if (guard.pattern !== undefined && !new RegExp(guard.pattern).test(v)) {
+      return `argument '${argName}' does not match ${guard.pattern}`;
+    }
+    if (
+      guard.pathPrefixes &&
+      !guard.pathPrefixes.some((prefix) => isWithin(prefix, v, cwd))
+    ) {
+      return `argument '${argName}' is outside the allowed paths`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether `path` resolves to `prefix` or somewhere beneath it, once both are
+ * made absolute against `cwd` and symlinks are followed.
+ */
+function isWithin(prefix: string, path: string, cwd?: string | null): boolean {
+  const base = resolve(cwd ? expandHome(cwd) : ".");
+  const rel = relative(realPath(base, prefix), realPath(base, path));
+  return rel === "" || (rel.split(sep)[0] !== ".." && !isAbsolute(rel));
+}
+
+/**
+ * `realpath` that tolerates paths which don't exist yet: components are
+ * resolved one by one, so `..` after a symlink climbs out of its target as
+ * the OS would, and missing components are kept as given.
+ */
+function realPath(base: string, path: string): string {
+  // Not `expandHome`/`resolve`: they would resolve against the agent's cwd
+  // and collapse `..` before symlinks are seen
+  const absolute =
+    path === "~" || path.startsWith("~/") || path.startsWith("~\\")
+      ? `${homedir()}${sep}${path.slice(2)}`
+      : isAbsolute(path)
+        ? path
+        : `${base}${sep}${path}`;
+  const { root } = parse(absolute);
+  let current = root;
+  for (const part of absolute.slice(root.length).split(/[\\/]+/)) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      current = dirname(current);
+      continue;
+    }
+    const next = join(current, part);
+    try {
+      current = realpathSync(next);
+    } catch {
+      current = next;
+    }
+  }
+  return current;
+}
+
+// ── Interactive confirmation ────────────────────────────────────────────────
+
+let _confirmQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Asks on the agent's terminal whether a call may run. Prompts are serialized
+ * so concurrent calls don't interleave. Resolves `false` when stdin is not a
+ * TTY or nobody answers within `timeoutMs`.
+ */
+export function confirmToolCall(
+  description: string,
+  timeoutMs: number,
+): Promise<boolean> {
+  if (!process.stdin.isTTY) return Promise.resolve(false);
+
+  const ask = () =>
+    new Promise<boolean>((resolve) => {
+      const rl = createInterface({
+        input: process.stdin,
+        output: process.stdout,
+      });
+      const timer = setTimeout(() => {
+        rl.close();
+        console.log("\n  (no answer — denied)");
+        resolve(false);
+      }, timeoutMs);
+      rl.question(`\n  Allow ${description}? [y/N] `, (answer) => {
+        clearTimeout(timer);
+        rl.close();
+        resolve(/^y(es)?$/i.test(answer.trim()));
+      });
+    });
+
+  const result = _confirmQueue.then(ask);
+  _confirmQueue = result.catch(() => {});
+  return result;
+}
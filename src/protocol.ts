@@ -0,0 +1,148 @@
+import { AGENT_VERSION } from "./version.js";
+
+// ── Capability negotiation ──────────────────────────────────────────────────
+//
+// `join` carries the agent's protocol version and capabilities; the ack
+// answers with the server's. Features the server does not list are switched
+// off for that tunnel. Servers that predate negotiation ack without
+// `capabilities` and only get the baseline protocol: tool announcements,
+// tool calls and results, and status updates, each sent once.
+
+/** Bumped whenever tunnel events change incompatibly. */
+export const PROTOCOL_VERSION = 2;
+
+export const TUNNEL_CAPABILITIES = [
+  /** `resourcesAnnounce` and `agent:resource_read` */
+  "resources",
+  /** `promptsAnnounce` and `agent:prompt_get` */
+  "prompts",
+  /** `toolProgress` */
+  "progress",
+  /** `agent:tool_cancel` */
+  "cancellation",
+  /** `toolResultChunk` (and resource/prompt) frames for large results */
+  "chunking",
+  /** `deliveryId` acks and replay of the outbox after `join` */
+  "redelivery",
+  /** `queueStatus` */
+  "queueStatus",
+  /** `samplingRequest`, `rootsRequest` and `elicitationRequest` */
+  "serverRequests",
+  /** `endpointsAnnounce` */
+  "localEndpoints",
+  /** Signed server events and sealed results (see e2e.ts) */
+  "e2e",
+] as const;
+
+export type TunnelCapability = (typeof TUNNEL_CAPABILITIES)[number];
+
+/**
+ * Assumed for servers that predate negotiation. Nothing beyond the baseline
+ * is — such a server may not ack deliveries or know any later event.
+ */
+export const LEGACY_CAPABILITIES: readonly TunnelCapability[] = [];
+
+/** Payload of the agent's `join`. */
+export interface JoinPayload {
+  protocolVersion: number;
+  agentVersion: string;
+  capabilities: TunnelCapability[];
+}
+
+/** Ack of `join` as sent by the server; every field is optional. */
+export interface JoinAck {
+  status?: "ok" | "error";
+  message?: string;
+  protocolVersion?: number;
+  capabilities?: string[];
+  /** Oldest agent version the server still talks to */
+  minAgentVersion?: string;
+}
+
+export interface NegotiatedProtocol {
+  /** Null for servers that predate negotiation */
+  protocolVersion: number | null;
+  capabilities: Set<TunnelCapability>;
+}
+
+/**
+ * The server only talks to newer agents, or lacks a feature the agent
+ * requires — reconnecting won't help.
+ */
+export class IncompatibleServerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IncompatibleServerError";
+  }
+}
+
+/** What the agent offers in `join` — `e2e` only when it is enabled. */
+export function agentCapabilities(e2e: boolean): TunnelCapability[] {
+  return TUNNEL_CAPABILITIES.filter((c) => e2e || c !== "e2e");
+}
+
+export function joinPayload(e2e: boolean): JoinPayload {
+  return {
+    protocolVersion: PROTOCOL_VERSION,
+    agentVersion: AGENT_VERSION,
+    capabilities: agentCapabilities(e2e),
+  };
+}
+
+/**
+ * Reads the ack of `join`. Throws `IncompatibleServerError` if the server
+ * requires a newer agent or, with `e2e` enabled, doesn't negotiate it, and
+ * a plain `Error` if it rejected the join.
+ */
+export function negotiate(ack: unknown, e2e: boolean): NegotiatedProtocol {
+  const reply = (ack && typeof ack === "object" ? ack : {}) as JoinAck;
+  if (
+    typeof reply.minAgentVersion === "string" &&
+    compareVersions(AGENT_VERSION, reply.minAgentVersion) < 0
+  ) {
+    throw new IncompatibleServerError(
+      `MCP Central requires agent ${reply.minAgentVersion} or newer ` +
+        `(this is ${AGENT_VERSION}) — upgrade mcp-central-agent`,
+    );
+  }
+  if (reply.status === "error") {
+    throw new Error(`join rejected: ${reply.message ?? JSON.stringify(ack)}`);
+  }
+
+  const advertised: readonly string[] = Array.isArray(reply.capabilities)
+    ? reply.capabilities
+    : LEGACY_CAPABILITIES;
+  const capabilities = new Set(
+    agentCapabilities(e2e).filter((c) => advertised.includes(c)),
+  );
+  // It would reject every unsigned call and receive results it can't open
+  if (e2e && !capabilities.has("e2e")) {
+    throw new IncompatibleServerError(
+      "e2e is enabled but MCP Central does not support it — " +
+        "upgrade the server or set e2e.enabled to false",
+    );
+  }
+  return {
+    protocolVersion:
+      typeof reply.protocolVersion === "number" ? reply.protocolVersion : null,
+    capabilities,
+  };
+}
+
+/**
+ * Compares dotted numeric versions, so `1.10.0` sorts after `1.9.2`.
+ * Pre-release suffixes are ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (v: string) =>
+    v
+      .split("-")[0]
+      .split(".")
+      .map((n) => Number.parseInt(n, 10) || 0);
+  const [x, y] = [parse(a), parse(b)];
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    const diff = (x[i] ?? 0) - (y[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
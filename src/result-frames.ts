@@ -0,0 +1,95 @@
+import { createHash } from "crypto";
+import { promisify } from "util";
+import { gzip } from "zlib";
+
+// ── Result framing ──────────────────────────────────────────────────────────
+//
+// Socket.IO servers cap the size of one message (1 MB by default), so a large
+// result is not sent as a single `toolResult` (or `resourceResult`,
+// `promptResult`). Its JSON is gzipped when that makes it smaller, cut into
+// `toolResultChunk` (`resourceResultChunk`, `promptResultChunk`) frames
+// `{ callId, seq, total, data }` with base64 `data`, and the closing result
+// event carries `chunked` (encoding, sizes and the SHA-256 of the encoded
+// bytes) in place of `result` — or of `sealed` with `e2e`, as told by
+// `chunked.field`. The server joins the chunks in `seq` order, checks the
+// digest, then gunzips if needed.
+
+const gzipAsync = promisify(gzip);
+
+export interface ResultLimits {
+  /** Results whose JSON is larger fail with code `too_large` */
+  maxBytes: number;
+  /** Results whose JSON is larger are chunked; also the size of a chunk */
+  chunkBytes: number;
+  /** Gzip chunked results when that makes them smaller */
+  compress: boolean;
+}
+
+/**
+ * Largest result JSON sent as a single `toolResult` when the server can't
+ * take chunks: Socket.IO's default 1 MB message cap, less room for the
+ * rest of the message. Larger results fail with code `too_large`.
+ */
+export const MAX_UNCHUNKED_RESULT_BYTES = 1_000_000 - 4 * 1024;
+
+export const DEFAULT_RESULT_LIMITS: ResultLimits = {
+  maxBytes: 8 * 1024 * 1024,
+  chunkBytes: 256 * 1024,
+  compress: true,
+};
+
+/** Sent as `toolResult.chunked` after the last chunk. */
+export interface ChunkedResult {
+  /** The `toolResult` field the joined chunks stand for */
+  field: "result" | "sealed";
+  encoding: "gzip" | "identity";
+  chunks: number;
+  /** Size of the encoded bytes carried by the chunks */
+  bytes: number;
+  /** Size of the result's JSON before encoding */
+  size: number;
+  /** Hex SHA-256 of the encoded bytes */
+  sha256: string;
+}
+
+export interface ResultFrames {
+  /** Base64 data of each chunk frame, in `seq` order */
+  chunks: string[];
+  chunked: ChunkedResult;
+}
+
+/** Encodes a result's JSON and splits it into chunks of `chunkBytes`. */
+export async function frameResult(
+  json: string,
+  limits: Pick<ResultLimits, "chunkBytes" | "compress">,
+  field: ChunkedResult["field"] = "result",
+): Promise<ResultFrames> {
+  const raw = Buffer.from(json);
+  let data = raw;
+  let encoding: ChunkedResult["encoding"] = "identity";
+  if (limits.compress) {
+    const compressed = await gzipAsync(raw);
+    if (compressed.length < raw.length) {
+      data = compressed;
+      encoding = "gzip";
+    }
+  }
+
+  const chunks: string[] = [];
+  for (let offset = 0; offset < data.length; offset += limits.chunkBytes) {
+    chunks.push(
+      data.subarray(offset, offset + limits.chunkBytes).toString("base64"),
+    );
+  }
+  return {
+    chunks,
+    chunked: {
+      field,
+      encoding,
+      chunks: chunks.length,
+      bytes: data.length,
+      size: raw.length,
+      sha256: createHash("sha256").update(data).digest("hex"),
+    },
+  };
+}
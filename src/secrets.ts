@@ -0,0 +1,217 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+
+// ── Placeholder interpolation ───────────────────────────────────────────────
+//
+// Endpoint `env` and `headers` values may contain placeholders that are
+// resolved on the agent right before the transport is created, so secrets
+// never have to be stored in MCP Central:
+//
+//   ${env:GITHUB_TOKEN}       — environment variable of the agent process
+//   ${file:~/.secrets/db}     — contents of a file (trailing newline trimmed)
+//   ${secret:DB_PASSWORD}     — entry of the encrypted secrets file
+
+const PLACEHOLDER = /\$\{(env|file|secret):([^}]+)\}/g;
+
+/** Env var holding the passphrase of the encrypted secrets file. */
+export const SECRETS_PASSPHRASE_ENV = "MCP_AGENT_SECRETS_PASSPHRASE";
+
+/** Thrown when a placeholder cannot be resolved. */
+export class SecretResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretResolutionError";
+  }
+}
+
+export interface SecretResolverOptions {
+  /** Path of the encrypted secrets file used by `${secret:…}` */
+  secretsFile?: string;
+}
+
+/**
+ * Returns a copy of `values` with every placeholder replaced. All failures
+ * are collected so the error names every unresolved reference at once.
+ */
+export async function resolveSecrets(
+  values: Record<string, string>,
+  options: SecretResolverOptions = {},
+): Promise<Record<string, string>> {
+  let secrets: Record<string, string> | null = null;
+  const loadSecrets = async () => {
+    secrets ??= await readSecretsFile(options.secretsFile);
+    return secrets;
+  };
+
+  const resolved: Record<string, string> = {};
+  const failures: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const replacements = new Map<string, string>();
+    for (const [placeholder, kind, ref] of value.matchAll(PLACEHOLDER)) {
+      if (replacements.has(placeholder)) continue;
+      try {
+        replacements.set(
+          placeholder,
+          await resolvePlaceholder(kind, ref.trim(), loadSecrets),
+        );
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        failures.push(`${key}: ${placeholder} — ${reason}`);
+      }
+    }
+    resolved[key] = value.replace(
+      PLACEHOLDER,
+      (placeholder) => replacements.get(placeholder) ?? placeholder,
+    );
+  }
+
+  if (failures.length > 0) {
+    throw new SecretResolutionError(
+      `Unresolved secret references:\n  ${failures.join("\n  ")}`,
+    );
+  }
+  return resolved;
+}
+
+async function resolvePlaceholder(
+  kind: string,
+  ref: string,
+  loadSecrets: () => Promise<Record<string, string>>,
+): Promise<string> {
+  if (kind === "env") {
+    const value = process.env[ref];
+    if (value === undefined) {
+      throw new Error(`environment variable ${ref} is not set`);
+    }
+    return value;
+  }
+
+  if (kind === "file") {
+    const path = expandHome(ref);
+    try {
+      return (await readFile(path, "utf-8")).replace(/\r?\n$/, "");
+    } catch {
+      throw new Error(`cannot read ${path}`);
+    }
+  }
+
+  const secrets = await loadSecrets();
+  if (!(ref in secrets)) {
+    throw new Error(`no secret named ${ref}`);
+  }
+  return secrets[ref];
+}
+
+/** Expands a leading `~` to the user's home directory. */
+export function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/") || path.startsWith("~\\")) {
+    return resolve(homedir(), path.slice(2));
+  }
+  return resolve(path);
+}
+
+// ── Encrypted secrets file ──────────────────────────────────────────────────
+//
+// A JSON envelope holding an AES-256-GCM encrypted `Record<string, string>`.
+// The key is derived with scrypt from a passphrase, so the file is portable
+// across operating systems and doesn't depend on an OS keychain.
+
+interface SecretsEnvelope {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+function requirePassphrase(): string {
+  const passphrase = process.env[SECRETS_PASSPHRASE_ENV];
+  if (!passphrase) {
+    throw new Error(
+      `${SECRETS_PASSPHRASE_ENV} must be set to use the secrets file`,
+    );
+  }
+  return passphrase;
+}
+
+/**
+ * Decrypts the secrets file. A missing file is treated as empty so
+ * `secrets set` can create it; any other read error is thrown, so a file
+ * that exists is never overwritten with a single secret.
+ */
+export async function readSecretsFile(
+  filePath: string | undefined,
+  passphrase: string = requirePassphrase(),
+): Promise<Record<string, string>> {
+  if (!filePath) {
+    throw new Error("no secretsFile is configured");
+  }
+  const path = expandHome(filePath);
+
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+
+  try {
+    const envelope = JSON.parse(raw) as SecretsEnvelope;
+    const key = deriveKey(passphrase, Buffer.from(envelope.salt, "base64"));
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(envelope.iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plain.toString("utf-8")) as Record<string, string>;
+  } catch {
+    throw new Error(
+      `cannot decrypt ${path} (wrong passphrase or corrupted file)`,
+    );
+  }
+}
+
+/** Encrypts and writes the secrets file (mode 0600). */
+export async function writeSecretsFile(
+  filePath: string,
+  secrets: Record<string, string>,
+  passphrase: string = requirePassphrase(),
+): Promise<void> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), "utf-8"),
+    cipher.final(),
+  ]);
+  const envelope: SecretsEnvelope = {
+    version: 1,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  await writeFile(
+    expandHome(filePath),
+    JSON.stringify(envelope, null, 2) + "\n",
+    { encoding: "utf-8", mode: 0o600 },
+  );
+}
@@ -0,0 +1,275 @@
+import spawn from "cross-spawn";
+import { execFile } from "child_process";
+import type { ChildProcess } from "child_process";
+import { promisify } from "util";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ReadBuffer,
+  serializeMessage,
+} from "@modelcontextprotocol/sdk/shared/stdio.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// ── Stderr ring buffer ──────────────────────────────────────────────────────
+
+/** Keeps the last `capacity` lines written to a stream. */
+export class LineRingBuffer {
+  private readonly _capacity: number;
+  private readonly _lines: string[] = [];
+  private _partial = "";
+
+  constructor(capacity: number) {
+    this._capacity = capacity;
+  }
+
+  write(chunk: string): void {
+    const text = this._partial + chunk;
+    const parts = text.split(/\r?\n/);
+    this._partial = parts.pop() ?? "";
+    for (const line of parts) this._push(line);
+  }
+
+  /** Buffered lines, oldest first, including an unterminated last line. */
+  lines(): string[] {
+    return this._partial ? [...this._lines, this._partial] : [...this._lines];
+  }
+
+  clear(): void {
+    this._lines.length = 0;
+    this._partial = "";
+  }
+
+  private _push(line: string): void {
+    this._lines.push(line);
+    if (this._lines.length > this._capacity) this._lines.shift();
+  }
+}
+
+// ── SupervisedStdioTransport ────────────────────────────────────────────────
+
+export interface SupervisedStdioOptions {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd?: string;
+  /** Number of stderr lines retained for diagnostics */
+  stderrLines: number;
+}
+
+export interface ProcessExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  /** How long the process ran, in ms */
+  uptimeMs: number;
+}
+
+const CLOSE_GRACE_MS = 2_000;
+
+/**
+ * Stdio transport that, unlike the SDK's `StdioClientTransport`, captures
+ * stderr into a ring buffer, records the exit code/signal, honours `cwd`,
+ * and terminates the whole process tree on `close()` — `npx`/shell wrappers
+ * otherwise leave the actual server running.
+ */
+export class SupervisedStdioTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /** Invoked with the exit details right before `onclose` */
+  onexit?: (exit: ProcessExit) => void;
+
+  readonly stderr: LineRingBuffer;
+
+  private readonly _options: SupervisedStdioOptions;
+  private readonly _readBuffer = new ReadBuffer();
+  private _process: ChildProcess | null = null;
+  private _startedAt = 0;
+  private _lastExit: ProcessExit | null = null;
+
+  constructor(options: SupervisedStdioOptions) {
+    this._options = options;
+    this.stderr = new LineRingBuffer(options.stderrLines);
+  }
+
+  get pid(): number | null {
+    return this._process?.pid ?? null;
+  }
+
+  get lastExit(): ProcessExit | null {
+    return this._lastExit;
+  }
+
+  async start(): Promise<void> {
+    if (this._process) {
+      throw new Error("SupervisedStdioTransport already started");
+    }
+    const { command, args, env, cwd } = this._options;
+
+    await new Promise<void>((resolve, reject) => {
+      // Not `detached`: the child stays in the agent's process group, so
+      // terminal Ctrl-C reaches it and it isn't orphaned in a group of its
+      // own if the agent dies.
+      const child = spawn(command, args, {
+        env,
+        cwd,
+        stdio: ["pipe", "pipe", "pipe"],
+        shell: false,
+        windowsHide: true,
+      });
+      this._process = child;
+
+      child.on("error", (err) => {
+        reject(err);
+        this.onerror?.(err);
+      });
+      child.on("spawn", () => {
+        this._startedAt = Date.now();
+        resolve();
+      });
+      child.on("close", (code, signal) => {
+        this._lastExit = {
+          code,
+          signal,
+          uptimeMs: this._startedAt ? Date.now() - this._startedAt : 0,
+        };
+        this._process = null;
+        this.onexit?.(this._lastExit);
+        this.onclose?.();
+      });
+
+      child.stdin?.on("error", (err) => this.onerror?.(err));
+      child.stdout?.on("data", (chunk: Buffer) => {
+        this._readBuffer.append(chunk);
+        this._processReadBuffer();
+      });
+      child.stdout?.on("error", (err) => this.onerror?.(err));
+      child.stderr?.setEncoding("utf-8");
+      child.stderr?.on("data", (chunk: string) => this.stderr.write(chunk));
+    });
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = this._process;
+      const stdin = child?.stdin;
+      if (!child || !stdin) {
+        reject(new Error("Not connected"));
+        return;
+      }
+      if (stdin.write(serializeMessage(message))) {
+        resolve();
+        return;
+      }
+      // A process that dies with a full pipe never drains it
+      const settle = (err?: Error) => {
+        stdin.off("drain", onDrain);
+        stdin.off("error", onError);
+        child.off("close", onClose);
+        if (err) reject(err);
+        else resolve();
+      };
+      const onDrain = () => settle();
+      const onError = (err: Error) => settle(err);
+      const onClose = () =>
+        settle(new Error("Process exited before reading the message"));
+      stdin.once("drain", onDrain);
+      stdin.once("error", onError);
+      child.once("close", onClose);
+    });
+  }
+
+  /**
+   * Closes stdin and waits for a graceful exit, then SIGTERM and finally
+   * SIGKILL the process tree.
+   */
+  async close(): Promise<void> {
+    const child = this._process;
+    if (child) {
+      const exited = new Promise<void>((resolve) =>
+        child.once("close", () => resolve()),
+      );
+      const waitForExit = () =>
+        Promise.race([
+          exited.then(() => true),
+          new Promise<boolean>((resolve) =>
+            setTimeout(() => resolve(false), CLOSE_GRACE_MS).unref(),
+          ),
+        ]);
+
+      try {
+        child.stdin?.end();
+      } catch {
+        // ignore
+      }
+      if (!(await waitForExit())) {
+        await killTree(child, "SIGTERM");
+        if (!(await waitForExit())) await killTree(child, "SIGKILL");
+      }
+    }
+    this._readBuffer.clear();
+  }
+
+  private _processReadBuffer(): void {
+    while (true) {
+      try {
+        const message = this._readBuffer.readMessage();
+        if (message === null) break;
+        this.onmessage?.(message);
+      } catch (err) {
+        this.onerror?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  }
+}
+
+const execFileAsync = promisify(execFile);
+
+async function killTree(
+  child: ChildProcess,
+  signal: NodeJS.Signals,
+): Promise<void> {
+  if (child.pid === undefined) return;
+  if (process.platform === "win32") {
+    spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], {
+      stdio: "ignore",
+      windowsHide: true,
+    });
+    return;
+  }
+  // Collect the whole tree before signalling — killed wrappers would
+  // otherwise leave their children reparented and out of reach.
+  for (const pid of [child.pid, ...(await descendantsOf(child.pid))]) {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/** Pids of every process below `pid`, from `ps`; empty if that fails. */
+async function descendantsOf(pid: number): Promise<number[]> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync("ps", ["-A", "-o", "pid=,ppid="]));
+  } catch {
+    return [];
+  }
+  const children = new Map<number, number[]>();
+  for (const line of stdout.split("\n")) {
+    const [child, parent] = line.trim().split(/\s+/).map(Number);
+    if (!child || !parent) continue;
+    children.set(parent, [...(children.get(parent) ?? []), child]);
+  }
+  const found = [...(children.get(pid) ?? [])];
+  for (let i = 0; i < found.length; i++) {
+    found.push(...(children.get(found[i]) ?? []));
+  }
+  return found;
+}
+
+/** Human-readable description of how a process ended. */
+export function describeExit(exit: ProcessExit): string {
+  if (exit.signal) return `process killed by ${exit.signal}`;
+  return `process exited with code ${exit.code}`;
+}
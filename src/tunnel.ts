@@ -1,8 +1,39 @@
+import { randomUUID } from "node:crypto";
 import { io, type Socket } from "socket.io-client";
-import type { AgentConfig } from "./config.js";
-import type { EndpointConfig } from "./local-client.js";
-import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { ServerProfile } from "./config.js";
+import type { EndpointConfig, LocalClientStatus } from "./local-client.js";
+import type {
+  Progress,
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
 import { AGENT_VERSION } from "./version.js";
+import { Logger, registerSecret } from "./logger.js";
+import {
+  DEFAULT_OUTBOX_LIMITS,
+  Outbox,
+  type OutboxEntry,
+  type OutboxLimits,
+} from "./outbox.js";
+import {
+  IncompatibleServerError,
+  joinPayload,
+  LEGACY_CAPABILITIES,
+  negotiate,
+  TUNNEL_CAPABILITIES,
+  type NegotiatedProtocol,
+  type TunnelCapability,
+} from "./protocol.js";
+import {
+  DEFAULT_RESULT_LIMITS,
+  frameResult,
+  MAX_UNCHUNKED_RESULT_BYTES,
+  type ChunkedResult,
+  type ResultLimits,
+} from "./result-frames.js";
+import type { SealedPayload } from "./e2e.js";
 
 // ── Tunnel protocol types ────────────────────────────────────────────────
 
@@ -11,9 +42,104 @@ export interface ToolCallPayload {
   endpointId: string;
   toolName: string;
   args: Record<string, unknown>;
+  /** Per-call deadline in ms — falls back to `toolCallTimeoutMs` from config. */
+  timeoutMs?: number;
+  /** Server signature, required when `e2e` is enabled (see e2e.ts) */
+  signature?: ToolCallSignature;
+}
+
+export interface ToolCallSignature {
+  /** Signing time (ms since epoch), checked against the clock skew limit */
+  ts: number;
+  /** Base64 ES256 signature (r‖s) */
+  sig: string;
+}
+
+/**
+ * With `e2e`, every server event but `agent:tool_call` carries a
+ * `signature` over its other fields (see e2e.ts). `agent:endpoints` then
+ * comes as `{ endpoints, signature }` instead of a bare array.
+ */
+export interface SignedServerEvent {
+  signature?: ToolCallSignature;
+}
+
+export interface ToolCancelPayload extends SignedServerEvent {
+  callId: string;
+  reason?: string;
+}
+
+/**
+ * Replies that carry a request's result and are sized and chunked alike —
+ * large ones go out as `<event>Chunk` frames (see result-frames.ts).
+ */
+export type ResultEvent = "toolResult" | "resourceResult" | "promptResult";
+
+/** Machine-readable reason attached to a tool error, when there is one. */
+export type ToolErrorCode =
+  | "timeout"
+  | "cancelled"
+  | "denied"
+  | "busy"
+  | "too_large"
+  | "invalid_signature"
+  | "degraded";
+
+export interface ResourceReadPayload extends SignedServerEvent {
+  callId: string;
+  endpointId: string;
+  uri: string;
+}
+
+export interface PromptGetPayload extends SignedServerEvent {
+  callId: string;
+  endpointId: string;
+  promptName: string;
+  args: Record<string, string>;
+}
+
+/** Requests a local server makes of its client, forwarded to MCP Central. */
+export type ServerRequestKind = "sampling" | "roots" | "elicitation";
+
+export interface ServerRequestResultPayload extends SignedServerEvent {
+  requestId: string;
+  result?: unknown;
+  error?: string;
+}
+
+const SERVER_REQUEST_EVENTS: Record<ServerRequestKind, string> = {
+  sampling: "samplingRequest",
+  roots: "rootsRequest",
+  elicitation: "elicitationRequest",
+};
+
+// Sampling waits on an LLM and elicitation on a human, so they get far more
+// headroom than a roots lookup.
+const SERVER_REQUEST_TIMEOUTS: Record<ServerRequestKind, number> = {
+  sampling: 120_000,
+  roots: 10_000,
+  elicitation: 600_000,
+};
+
+/** How long to wait for the server to acknowledge a reliable message. */
+const DELIVERY_ACK_TIMEOUT_MS = 10_000;
+
+interface PendingServerRequest {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
 export interface TunnelCallbacks {
+  /** Fired each time the server accepts the `join` handshake. */
+  onJoined: () => void;
+  /**
+   * The server requires a newer agent or lacks `e2e` while it is enabled;
+   * the tunnel has stopped for good.
+   */
+  onIncompatible?: (message: string) => void;
+  onDisconnected?: (reason: string) => void;
+  onReconnectAttempt?: (attempt: number) => void;
   onEndpoints: (endpoints: EndpointConfig[]) => void;
   onEndpointAdd: (endpoint: EndpointConfig) => void;
   onEndpointRemove: (endpointId: string) => void;
@@ -21,26 +147,84 @@ export interface TunnelCallbacks {
   onEndpointUpdate: (endpoint: EndpointConfig) => void;
   onEndpointRefresh: (endpointId: string) => void;
   onToolCall: (payload: ToolCallPayload) => void;
+  onToolCancel: (payload: ToolCancelPayload) => void;
+  onResourceRead: (payload: ResourceReadPayload) => void;
+  onPromptGet: (payload: PromptGetPayload) => void;
+  /**
+   * With `e2e`, checks the signature of a server event before it is
+   * handled; resolves why to refuse it, or null to accept it. Tool calls,
+   * resource reads and prompt gets skip this — their handlers check them
+   * and answer refusals.
+   */
+  verifyEvent?: (event: string, payload: unknown) => Promise<string | null>;
 }
 
 // ── AgentTunnel ──────────────────────────────────────────────────────────
 
 export class AgentTunnel {
   private _socket: Socket | null = null;
-  private readonly _config: AgentConfig;
+  private readonly _profile: ServerProfile;
   private readonly _callbacks: TunnelCallbacks;
+  private readonly _pendingRequests = new Map<string, PendingServerRequest>();
+  private readonly _outbox: Outbox;
+  private readonly _results: ResultLimits;
+  /** Offer `e2e` in `join` and refuse servers that don't negotiate it */
+  private readonly _e2e: boolean;
+  private readonly _log: Logger;
+  private _joined = false;
+  /** Negotiated on the last `join`; null before the first one */
+  private _protocol: NegotiatedProtocol | null = null;
+  private _incompatible: string | null = null;
+  /** With `e2e`, server events are verified and handled one at a time */
+  private _inbound: Promise<void> = Promise.resolve();
 
-  constructor(config: AgentConfig, callbacks: TunnelCallbacks) {
-    this._config = config;
+  constructor(
+    profile: ServerProfile,
+    callbacks: TunnelCallbacks,
+    outbox: OutboxLimits = DEFAULT_OUTBOX_LIMITS,
+    results: ResultLimits = DEFAULT_RESULT_LIMITS,
+    e2e = false,
+  ) {
+    this._profile = profile;
     this._callbacks = callbacks;
+    this._results = results;
+    this._e2e = e2e;
+    this._outbox = new Outbox(
+      outbox,
+      new Logger("Outbox", { server: profile.name }),
+    );
+    this._log = new Logger("AgentTunnel", { server: profile.name });
+    registerSecret(profile.apiKey);
+  }
+
+  /** Whether the server advertised `capability` on the last `join`. */
+  supports(capability: TunnelCapability): boolean {
+    return this._protocol
+      ? this._protocol.capabilities.has(capability)
+      : LEGACY_CAPABILITIES.includes(capability);
+  }
+
+  /**
+   * Largest result JSON (tool, resource or prompt) this server can be
+   * sent: `results.maxBytes`, or less when it can't take chunks.
+   */
+  get maxResultBytes(): number {
+    return this.supports("chunking")
+      ? this._results.maxBytes
+      : Math.min(this._results.maxBytes, MAX_UNCHUNKED_RESULT_BYTES);
+  }
+
+  /** Why the server and this agent can't work together, if they can't. */
+  get incompatible(): string | null {
+    return this._incompatible;
   }
 
   /** Connect to the /agent-tunnel namespace with the agent API key. */
   connect(): void {
-    const url = this._config.serverUrl.replace(/\/$/, "");
+    const url = this._profile.serverUrl.replace(/\/$/, "");
 
     this._socket = io(`${url}/agent-tunnel`, {
-      auth: { apiKey: this._config.apiKey, version: AGENT_VERSION },
+      auth: { apiKey: this._profile.apiKey, version: AGENT_VERSION },
       transports: ["websocket"],
       reconnection: true,
       reconnectionDelay: 1_000,
@@ -49,83 +233,288 @@ export class AgentTunnel {
     });
 
     this._socket.on("connect", () => {
-      console.log(`[AgentTunnel] Connected to ${url}/agent-tunnel`);
+      this._log.info(`Connected to ${url}/agent-tunnel`);
       // Emit join so AgentTunnelService registers the socket and pushes endpoints.
       // IOServer wires public service methods as socket.on(method) handlers;
       // the agent must explicitly emit this first event.
-      this._socket?.emit("join", {}, (ack: unknown) => {
-        if (ack && typeof ack === "object" && (ack as any).status === "error") {
-          console.error(`[AgentTunnel] join rejected:`, ack);
+      this._socket?.emit("join", joinPayload(this._e2e), (ack: unknown) => {
+        let protocol;
+        try {
+          protocol = negotiate(ack, this._e2e);
+        } catch (err) {
+          if (err instanceof IncompatibleServerError) {
+            this._log.error(err.message);
+            this.disconnect();
+            this._incompatible = err.message;
+            this._callbacks.onIncompatible?.(err.message);
+          } else {
+            this._log.error((err as Error).message, { ack });
+          }
+          return;
         }
+        this._setProtocol(protocol);
+        this._joined = true;
+        this._flushOutbox();
+        this._callbacks.onJoined();
       });
     });
 
     this._socket.on("disconnect", (reason) => {
-      console.warn(`[AgentTunnel] Disconnected: ${reason}`);
+      this._log.warn(`Disconnected: ${reason}`);
+      this._joined = false;
+      // The server loses track of outstanding requests with the socket.
+      this._rejectPendingRequests(`Tunnel disconnected: ${reason}`);
+      this._callbacks.onDisconnected?.(reason);
+    });
+
+    this._socket.io.on("reconnect_attempt", (attempt) => {
+      this._callbacks.onReconnectAttempt?.(attempt);
     });
 
     this._socket.on("connect_error", (err) => {
-      console.error(`[AgentTunnel] Connection error: ${err.message}`);
+      this._log.error(`Connection error: ${err.message}`);
     });
 
     // ── Server → Agent events ───────────────────────────────────────────
 
-    this._socket.on("agent:endpoints", (endpoints: EndpointConfig[]) => {
-      console.log(`[AgentTunnel] Received ${endpoints.length} endpoints`);
-      this._callbacks.onEndpoints(endpoints);
-    });
+    this._onServerEvent(
+      "agent:endpoints",
+      (payload: EndpointConfig[] | { endpoints: EndpointConfig[] }) => {
+        const endpoints = Array.isArray(payload) ? payload : payload.endpoints;
+        this._log.info(`Received ${endpoints.length} endpoints`);
+        this._callbacks.onEndpoints(endpoints);
+      },
+    );
 
-    this._socket.on(
+    this._onServerEvent(
       "agent:endpoint_add",
       ({ endpoint }: { endpoint: EndpointConfig }) => {
-        console.log(`[AgentTunnel] Endpoint added: ${endpoint.name}`);
+        this._log.info(`Endpoint added: ${endpoint.name}`, {
+          endpoint: endpoint.id,
+        });
         this._callbacks.onEndpointAdd(endpoint);
       },
     );
 
-    this._socket.on(
+    this._onServerEvent(
       "agent:endpoint_remove",
       (payload: { endpointId: string }) => {
-        console.log(`[AgentTunnel] Endpoint removed: ${payload.endpointId}`);
+        this._log.info("Endpoint removed", { endpoint: payload.endpointId });
         this._callbacks.onEndpointRemove(payload.endpointId);
       },
     );
 
-    this._socket.on(
+    this._onServerEvent(
       "agent:endpoint_toggle",
       (payload: { endpointId: string; isEnabled: boolean }) => {
         this._callbacks.onEndpointToggle(payload.endpointId, payload.isEnabled);
       },
     );
 
-    this._socket.on(
+    this._onServerEvent(
       "agent:endpoint_update",
       ({ endpoint }: { endpoint: EndpointConfig }) => {
-        console.log(`[AgentTunnel] Endpoint updated: ${endpoint.name}`);
+        this._log.info(`Endpoint updated: ${endpoint.name}`, {
+          endpoint: endpoint.id,
+        });
         this._callbacks.onEndpointUpdate(endpoint);
       },
     );
 
-    this._socket.on(
+    this._onServerEvent(
       "agent:endpoint_refresh",
       (payload: { endpointId: string }) => {
-        console.log(`[AgentTunnel] Endpoint refresh: ${payload.endpointId}`);
+        this._log.info("Endpoint refresh", { endpoint: payload.endpointId });
         this._callbacks.onEndpointRefresh(payload.endpointId);
       },
     );
 
-    this._socket.on("agent:tool_call", (payload: ToolCallPayload) => {
-      this._callbacks.onToolCall(payload);
+    this._onServerEvent(
+      "agent:tool_call",
+      (payload: ToolCallPayload) => {
+        this._callbacks.onToolCall(payload);
+      },
+      false,
+    );
+
+    this._onServerEvent("agent:tool_cancel", (payload: ToolCancelPayload) => {
+      this._log.debug("Tool call cancelled", { callId: payload.callId });
+      this._callbacks.onToolCancel(payload);
+    });
+
+    this._onServerEvent(
+      "agent:request_result",
+      (payload: ServerRequestResultPayload) => {
+        this._settleRequest(payload);
+      },
+    );
+
+    this._onServerEvent(
+      "agent:resource_read",
+      (payload: ResourceReadPayload) => {
+        this._callbacks.onResourceRead(payload);
+      },
+      false,
+    );
+
+    this._onServerEvent(
+      "agent:prompt_get",
+      (payload: PromptGetPayload) => {
+        this._callbacks.onPromptGet(payload);
+      },
+      false,
+    );
+  }
+
+  /**
+   * Handles a server event. With `e2e`, events are handled in arrival order
+   * and, when `verify` is set, dropped unless `verifyEvent` accepts their
+   * signature — so a refused `endpoint_add` can't be overtaken by a call to
+   * the endpoint it would have added.
+   */
+  private _onServerEvent<T>(
+    event: string,
+    handle: (payload: T) => void,
+    verify = true,
+  ): void {
+    this._socket?.on(event, (payload: T) => {
+      if (!this._e2e) {
+        handle(payload);
+        return;
+      }
+      this._inbound = this._inbound
+        .then(async () => {
+          if (verify) {
+            const refused = this._callbacks.verifyEvent
+              ? await this._callbacks.verifyEvent(event, payload)
+              : "no signature verifier";
+            if (refused) {
+              this._log.warn(`Refused ${event}: ${refused}`);
+              return;
+            }
+          }
+          handle(payload);
+        })
+        .catch((err) => {
+          this._log.error(`Failed to handle ${event}`, { error: err });
+        });
     });
   }
 
+  private _setProtocol(protocol: NegotiatedProtocol): void {
+    const previous = this._protocol;
+    this._protocol = protocol;
+    const { capabilities, protocolVersion } = protocol;
+    if (
+      previous &&
+      previous.protocolVersion === protocolVersion &&
+      previous.capabilities.size === capabilities.size &&
+      [...capabilities].every((c) => previous.capabilities.has(c))
+    ) {
+      return;
+    }
+    this._log.info(
+      `Negotiated protocol ${protocolVersion ?? "1 (server predates negotiation)"}`,
+      { capabilities: [...capabilities] },
+    );
+    const missing = TUNNEL_CAPABILITIES.filter((c) => !capabilities.has(c));
+    if (missing.length > 0) {
+      this._log.warn(
+        `Server does not support ${missing.join(", ")} — disabled on this tunnel`,
+      );
+    }
+  }
+
   disconnect(): void {
     this._socket?.disconnect();
     this._socket = null;
+    this._joined = false;
+    this._outbox.clear();
+    this._rejectPendingRequests("Tunnel closed");
+  }
+
+  /**
+   * Forwards a request from a local server (sampling, roots, elicitation) to
+   * MCP Central and resolves with the server's `agent:request_result` reply.
+   * Rejects if the tunnel is down, the server reports an error or no reply
+   * arrives in time.
+   */
+  request(
+    kind: ServerRequestKind,
+    endpointId: string,
+    params: unknown,
+  ): Promise<unknown> {
+    const socket = this._socket;
+    if (!socket?.connected) {
+      return Promise.reject(
+        new Error(`Cannot forward ${kind} request: tunnel is not connected`),
+      );
+    }
+    if (!this.supports("serverRequests")) {
+      return Promise.reject(
+        new Error(`MCP Central does not support ${kind} requests`),
+      );
+    }
+
+    const requestId = randomUUID();
+    const timeoutMs = SERVER_REQUEST_TIMEOUTS[kind];
+    return new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._pendingRequests.delete(requestId);
+        reject(
+          new Error(
+            `MCP Central did not answer the ${kind} request within ${timeoutMs}ms`,
+          ),
+        );
+      }, timeoutMs);
+      this._pendingRequests.set(requestId, { resolve, reject, timer });
+      socket.emit(SERVER_REQUEST_EVENTS[kind], {
+        requestId,
+        endpointId,
+        params,
+      });
+    });
+  }
+
+  private _settleRequest(payload: ServerRequestResultPayload): void {
+    const pending = this._pendingRequests.get(payload.requestId);
+    if (!pending) return;
+    this._pendingRequests.delete(payload.requestId);
+    clearTimeout(pending.timer);
+    if (payload.error !== undefined) {
+      pending.reject(new Error(payload.error));
+    } else {
+      pending.resolve(payload.result);
+    }
+  }
+
+  private _rejectPendingRequests(reason: string): void {
+    for (const pending of this._pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    }
+    this._pendingRequests.clear();
   }
 
   // ── Agent → Server events ──────────────────────────────────────────────
 
+  /**
+   * Announce the endpoints defined in the local config. Only identifying
+   * fields are sent — command lines, env and headers never leave the agent.
+   */
+  announceLocalEndpoints(endpoints: EndpointConfig[]): void {
+    if (!this.supports("localEndpoints")) return;
+    this._socket?.emit("endpointsAnnounce", {
+      endpoints: endpoints.map((e) => ({
+        id: e.id,
+        name: e.name,
+        namespace: e.namespace,
+        transport: e.transport,
+        isEnabled: e.isEnabled,
+      })),
+    });
+  }
+
   /** Announce the list of tools available for an endpoint. */
   announceTools(endpointId: string, tools: Tool[]): void {
     this._socket?.emit("toolsAnnounce", {
@@ -138,22 +527,237 @@ export class AgentTunnel {
     });
   }
 
-  /** Send the result of a tool call back to the server. */
+  /** Announce the resources and resource templates available for an endpoint. */
+  announceResources(
+    endpointId: string,
+    resources: Resource[],
+    resourceTemplates: ResourceTemplate[],
+  ): void {
+    if (!this.supports("resources")) return;
+    this._socket?.emit("resourcesAnnounce", {
+      endpointId,
+      resources: resources.map((r) => ({
+        uri: r.uri,
+        name: r.name,
+        description: r.description,
+        mimeType: r.mimeType,
+      })),
+      resourceTemplates: resourceTemplates.map((t) => ({
+        uriTemplate: t.uriTemplate,
+        name: t.name,
+        description: t.description,
+        mimeType: t.mimeType,
+      })),
+    });
+  }
+
+  /** Announce the prompts available for an endpoint. */
+  announcePrompts(endpointId: string, prompts: Prompt[]): void {
+    if (!this.supports("prompts")) return;
+    this._socket?.emit("promptsAnnounce", {
+      endpointId,
+      prompts: prompts.map((p) => ({
+        name: p.name,
+        description: p.description,
+        arguments: p.arguments,
+      })),
+    });
+  }
+
+  /**
+   * Send the result of a tool call back to the server. Results larger than
+   * `chunkBytes` are sent as `toolResultChunk` frames first — see
+   * result-frames.ts — if the server supports chunking; without it, results
+   * over `MAX_UNCHUNKED_RESULT_BYTES` are answered with `too_large`.
+   */
   sendToolResult(callId: string, result: unknown): void {
-    this._socket?.emit("toolResult", { callId, result });
+    this._sendResultField("toolResult", callId, "result", result);
+  }
+
+  /** Send a result or error sealed for the server (see e2e.ts). */
+  sendSealedResult(
+    event: ResultEvent,
+    callId: string,
+    sealed: SealedPayload,
+  ): void {
+    this._sendResultField(event, callId, "sealed", sealed);
+  }
+
+  /**
+   * Sends `value` as `field` of a result event, in chunks if it is large.
+   * Chunks and the closing event are queued as one outbox group.
+   */
+  private _sendResultField(
+    event: ResultEvent,
+    callId: string,
+    field: ChunkedResult["field"],
+    value: unknown,
+  ): void {
+    const json = JSON.stringify(value) ?? "null";
+    const bytes = Buffer.byteLength(json);
+    if (!this.supports("chunking")) {
+      // One message over the cap would drop the whole tunnel
+      if (bytes > MAX_UNCHUNKED_RESULT_BYTES) {
+        this.sendResultError(
+          event,
+          callId,
+          `Result is ${bytes} bytes, over the ${MAX_UNCHUNKED_RESULT_BYTES}-byte limit of a server without chunking`,
+          "too_large",
+        );
+        return;
+      }
+      this._sendReliable(event, { callId, [field]: value });
+      return;
+    }
+    if (bytes <= this._results.chunkBytes) {
+      this._sendReliable(event, { callId, [field]: value });
+      return;
+    }
+    frameResult(json, this._results, field)
+      .then(({ chunks, chunked }) => {
+        this._log.debug(
+          `Sending result in ${chunks.length} chunks (${chunked.encoding})`,
+          { callId, bytes: chunked.size },
+        );
+        const entries = this._outbox.pushGroup(`${event}:${callId}`, [
+          ...chunks.map((data, seq) => ({
+            event: `${event}Chunk`,
+            payload: { callId, seq, total: chunks.length, data },
+          })),
+          { event, payload: { callId, chunked } },
+        ]);
+        if (entries.length === 0) {
+          this.sendResultError(
+            event,
+            callId,
+            `Result of ${chunked.bytes} encoded bytes does not fit in the outbox (outbox.maxBytes)`,
+            "too_large",
+          );
+          return;
+        }
+        if (this._joined) {
+          for (const entry of entries) this._deliver(entry);
+        }
+      })
+      .catch((err) => {
+        this._log.error(`Failed to encode ${event}`, { callId, error: err });
+        this.sendResultError(
+          event,
+          callId,
+          `Failed to encode result: ${String(err)}`,
+        );
+      });
+  }
+
+  /** Send an error as any result event. */
+  sendResultError(
+    event: ResultEvent,
+    callId: string,
+    error: string,
+    code?: ToolErrorCode,
+  ): void {
+    this._sendReliable(event, { callId, error, code });
+  }
+
+  /** Relay a progress notification for an in-flight tool call. */
+  sendToolProgress(callId: string, progress: Progress): void {
+    if (!this.supports("progress")) return;
+    this._socket?.emit("toolProgress", {
+      callId,
+      progress: progress.progress,
+      total: progress.total,
+      message: progress.message,
+    });
+  }
+
+  /**
+   * Report how many calls of an endpoint are running and waiting for a
+   * slot, so the server can back off. Not buffered — only the current depth
+   * matters.
+   */
+  sendQueueStatus(endpointId: string, active: number, queued: number): void {
+    if (!this._joined || !this.supports("queueStatus")) return;
+    this._socket?.emit("queueStatus", { endpointId, active, queued });
   }
 
   /** Send a tool call error back to the server. */
-  sendToolError(callId: string, error: string): void {
-    this._socket?.emit("toolResult", { callId, error });
+  sendToolError(callId: string, error: string, code?: ToolErrorCode): void {
+    this.sendResultError("toolResult", callId, error, code);
+  }
+
+  /** Send the result of a resource read back to the server, chunked if large. */
+  sendResourceResult(callId: string, result: unknown): void {
+    this._sendResultField("resourceResult", callId, "result", result);
+  }
+
+  /** Send a resource read error back to the server. */
+  sendResourceError(callId: string, error: string, code?: ToolErrorCode): void {
+    this.sendResultError("resourceResult", callId, error, code);
+  }
+
+  /** Send the result of a prompt get back to the server, chunked if large. */
+  sendPromptResult(callId: string, result: unknown): void {
+    this._sendResultField("promptResult", callId, "result", result);
+  }
+
+  /** Send a prompt get error back to the server. */
+  sendPromptError(callId: string, error: string, code?: ToolErrorCode): void {
+    this.sendResultError("promptResult", callId, error, code);
   }
 
   /** Report the connection status of a local endpoint. */
   sendStatusUpdate(
     endpointId: string,
-    status: "connecting" | "connected" | "disconnected" | "error",
+    status: LocalClientStatus,
     error?: string,
   ): void {
-    this._socket?.emit("statusUpdate", { endpointId, status, error });
+    // Only the latest status of an endpoint is worth redelivering.
+    this._sendReliable(
+      "statusUpdate",
+      { endpointId, status, error },
+      `status:${endpointId}`,
+    );
+  }
+
+  // ── Reliable delivery ──────────────────────────────────────────────────
+
+  /**
+   * Queues a message in the outbox and emits it if the tunnel is joined.
+   * It stays queued until the server acks its `deliveryId`, so results
+   * produced while the tunnel is down are replayed after the next `join`.
+   */
+  private _sendReliable(
+    event: string,
+    payload: Record<string, unknown>,
+    key?: string,
+  ): void {
+    const entry = this._outbox.push(event, payload, key);
+    if (this._joined) this._deliver(entry);
+  }
+
+  private _deliver(entry: OutboxEntry): void {
+    if (!this.supports("redelivery")) {
+      // The server would never ack — send once, as servers without it expect
+      this._outbox.remove(entry.id);
+      this._socket?.emit(entry.event, entry.payload);
+      return;
+    }
+    this._socket
+      ?.timeout(DELIVERY_ACK_TIMEOUT_MS)
+      .emit(
+        entry.event,
+        { ...entry.payload, deliveryId: entry.id },
+        (err: Error | null) => {
+          // No ack in time: keep it for the next replay.
+          if (!err) this._outbox.remove(entry.id);
+        },
+      );
+  }
+
+  private _flushOutbox(): void {
+    const pending = this._outbox.pending();
+    if (pending.length === 0) return;
+    this._log.info(`Redelivering ${pending.length} buffered message(s)`);
+    for (const entry of pending) this._deliver(entry);
   }
 }
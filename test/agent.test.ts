@@ -0,0 +1,1108 @@
+import assert from "node:assert/strict";
+import { createHash, randomUUID } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  it,
+  mock,
+} from "node:test";
+import { McpCentralAgent } from "../src/agent.js";
+import type { AgentConfig } from "../src/config.js";
+import { PROTOCOL_VERSION, TUNNEL_CAPABILITIES } from "../src/protocol.js";
+import {
+  generateKeyPair,
+  openSealedPayload,
+  signServerEvent,
+  signToolCall,
+} from "../src/e2e.js";
+import { OAuthTokenStore } from "../src/oauth.js";
+import { MockCentral } from "./helpers/mock-central.js";
+import {
+  httpEndpoint,
+  startHttpMcpServer,
+  stdioEndpoint,
+  type FakeHttpServer,
+} from "./helpers/fake-servers.js";
+
+const API_KEY = "agent_test_key_123";
+
+// The agent logs every state change — keep the test output readable.
+before(() => {
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+});
+
+after(() => mock.restoreAll());
+
+// ── Harness ─────────────────────────────────────────────────────────────────
+
+let central: MockCentral;
+let agent: McpCentralAgent | null;
+
+beforeEach(async () => {
+  central = new MockCentral({ apiKey: API_KEY });
+  await central.start();
+  agent = null;
+});
+
+afterEach(async () => {
+  await agent?.stop();
+  await central.stop();
+});
+
+function testConfig(overrides: Partial<AgentConfig> = {}): AgentConfig {
+  return {
+    serverUrl: central.url,
+    agentName: "test-agent",
+    apiKey: API_KEY,
+    restart: {
+      mode: "always",
+      maxAttempts: 0,
+      initialDelayMs: 50,
+      maxDelayMs: 200,
+      minUptimeMs: 0,
+      crashLoopThreshold: 5,
+    },
+    ...overrides,
+  };
+}
+
+function startAgent(overrides: Partial<AgentConfig> = {}): McpCentralAgent {
+  agent = new McpCentralAgent(testConfig(overrides));
+  agent.start();
+  return agent;
+}
+
+/** Resolves with the next status of `endpointId` matching `status`. */
+function statusOf(endpointId: string, status: string, since = 0) {
+  return central.waitFor(
+    "statusUpdate",
+    (p) => p.endpointId === endpointId && p.status === status,
+    { since },
+  );
+}
+
+/** Sends `agent:tool_call` and resolves with the matching `toolResult`. */
+async function callTool(
+  endpointId: string,
+  toolName: string,
+  args: Record<string, unknown> = {},
+) {
+  const callId = randomUUID();
+  central.emit("agent:tool_call", { callId, endpointId, toolName, args });
+  return central.waitFor("toolResult", (p) => p.callId === callId);
+}
+
+function toolNames(announce: { tools: { name: string }[] }): string[] {
+  return announce.tools.map((t) => t.name).sort();
+}
+
+// ── Endpoint sync ───────────────────────────────────────────────────────────
+
+describe("endpoint sync", () => {
+  it("connects endpoints pushed on join and announces their tools", async () => {
+    central.endpoints = [stdioEndpoint("alpha")];
+    startAgent();
+
+    await statusOf("alpha", "connected");
+    const announce = await central.waitFor(
+      "toolsAnnounce",
+      (p) => p.endpointId === "alpha",
+    );
+    assert.deepEqual(toolNames(announce), [
+      "block",
+      "crash",
+      "echo",
+      "fail",
+      "pid",
+      "slow",
+      "throw",
+    ]);
+  });
+
+  it("adds and removes endpoints on server events", async () => {
+    startAgent();
+    await central.waitFor("join");
+
+    central.emit("agent:endpoint_add", { endpoint: stdioEndpoint("beta") });
+    await statusOf("beta", "connected");
+
+    const mark = central.received.length;
+    central.emit("agent:endpoint_remove", { endpointId: "beta" });
+    await statusOf("beta", "disconnected", mark);
+  });
+
+  it("disconnects on toggle off and reconnects on refresh after toggle on", async () => {
+    central.endpoints = [stdioEndpoint("gamma")];
+    startAgent();
+    await statusOf("gamma", "connected");
+
+    let mark = central.received.length;
+    central.emit("agent:endpoint_toggle", {
+      endpointId: "gamma",
+      isEnabled: false,
+    });
+    await statusOf("gamma", "disconnected", mark);
+
+    // Re-enabling asks the server for the config via a refresh round-trip
+    mark = central.received.length;
+    central.emit("agent:endpoint_toggle", {
+      endpointId: "gamma",
+      isEnabled: true,
+    });
+    await statusOf("gamma", "connecting", mark);
+    central.emit("agent:endpoint_add", { endpoint: stdioEndpoint("gamma") });
+    await statusOf("gamma", "connected", mark);
+  });
+
+  it("reconnects on refresh and re-announces tools", async () => {
+    central.endpoints = [stdioEndpoint("delta")];
+    startAgent();
+    await statusOf("delta", "connected");
+
+    const mark = central.received.length;
+    central.emit("agent:endpoint_refresh", { endpointId: "delta" });
+    await statusOf("delta", "connecting", mark);
+    await statusOf("delta", "connected", mark);
+    await central.waitFor("toolsAnnounce", (p) => p.endpointId === "delta", {
+      since: mark,
+    });
+  });
+
+  it("keeps the session on metadata-only updates", async () => {
+    central.endpoints = [stdioEndpoint("eps")];
+    startAgent();
+    await statusOf("eps", "connected");
+
+    central.emit("agent:endpoint_update", {
+      endpoint: stdioEndpoint("eps", { name: "Renamed" }),
+    });
+    const result = await callTool("eps", "echo", { text: "still here" });
+    assert.deepEqual(result.result.content, [
+      { type: "text", text: "still here" },
+    ]);
+    assert.equal(
+      central.events(
+        "statusUpdate",
+        (p) => p.endpointId === "eps" && p.status === "connecting",
+      ).length,
+      1,
+      "no reconnect after the initial connect",
+    );
+  });
+
+  it("reconnects when connection settings change", async () => {
+    central.endpoints = [stdioEndpoint("zeta")];
+    startAgent();
+    await statusOf("zeta", "connected");
+
+    const mark = central.received.length;
+    central.emit("agent:endpoint_update", {
+      endpoint: stdioEndpoint("zeta", { extraTool: "added" }),
+    });
+    await statusOf("zeta", "connecting", mark);
+    const announce = await central.waitFor(
+      "toolsAnnounce",
+      (p) => p.endpointId === "zeta",
+      { since: mark },
+    );
+    assert.ok(toolNames(announce).includes("added"));
+  });
+
+  it("applies edits made while the tunnel was down on the next join", async () => {
+    central.endpoints = [stdioEndpoint("eta")];
+    startAgent();
+    await statusOf("eta", "connected");
+
+    central.endpoints = [stdioEndpoint("eta", { extraTool: "offline_edit" })];
+    const mark = central.received.length;
+    central.dropConnection();
+
+    const announce = await central.waitFor(
+      "toolsAnnounce",
+      (p) => p.endpointId === "eta" && toolNames(p).includes("offline_edit"),
+      { since: mark },
+    );
+    assert.ok(announce);
+  });
+});
+
+// ── Tool calls ──────────────────────────────────────────────────────────────
+
+describe("tool calls", () => {
+  let http: FakeHttpServer;
+
+  before(async () => {
+    http = await startHttpMcpServer();
+  });
+
+  after(async () => {
+    await http.close();
+  });
+
+  it("returns the result of a stdio tool", async () => {
+    central.endpoints = [stdioEndpoint("calls")];
+    startAgent();
+    await statusOf("calls", "connected");
+
+    const reply = await callTool("calls", "echo", { text: "hello" });
+    assert.equal(reply.error, undefined);
+    assert.deepEqual(reply.result.content, [{ type: "text", text: "hello" }]);
+  });
+
+  it("passes isError results through and reports thrown errors", async () => {
+    central.endpoints = [stdioEndpoint("errors")];
+    startAgent();
+    await statusOf("errors", "connected");
+
+    const failed = await callTool("errors", "fail");
+    assert.equal(failed.result.isError, true);
+
+    const thrown = await callTool("errors", "throw");
+    assert.equal(thrown.result?.isError ?? Boolean(thrown.error), true);
+  });
+
+  it("refuses a chunked result that can't fit in the outbox whole", async () => {
+    central.endpoints = [stdioEndpoint("crowded")];
+    startAgent({
+      results: { maxBytes: 1024 * 1024, chunkBytes: 1024, compress: false },
+      outbox: { maxMessages: 1_000, maxBytes: 16 * 1024, maxAgeMs: 60_000 },
+    });
+    await statusOf("crowded", "connected");
+
+    const reply = await callTool("crowded", "echo", {
+      text: "x".repeat(40 * 1024),
+    });
+    assert.equal(reply.code, "too_large");
+    assert.match(reply.error, /outbox/);
+    assert.equal(
+      central.events("toolResultChunk", (p) => p.callId === reply.callId)
+        .length,
+      0,
+    );
+  });
+
+  it("answers calls to unknown endpoints with an error", async () => {
+    startAgent();
+    await central.waitFor("join");
+    const reply = await callTool("missing", "echo", { text: "x" });
+    assert.match(reply.error, /missing/);
+  });
+
+  it("sends large results as checksummed chunks", async () => {
+    central.endpoints = [stdioEndpoint("large")];
+    startAgent({
+      results: { maxBytes: 1024 * 1024, chunkBytes: 4096, compress: true },
+    });
+    await statusOf("large", "connected");
+
+    const text = Array.from({ length: 4000 }, (_, i) => `line ${i}`).join("\n");
+    const reply = await callTool("large", "echo", { text });
+    assert.equal(reply.result, undefined);
+    const { chunked } = reply;
+    assert.equal(chunked.encoding, "gzip");
+
+    const chunks = central
+      .events("toolResultChunk", (p) => p.callId === reply.callId)
+      .sort((a, b) => a.seq - b.seq);
+    assert.equal(chunks.length, chunked.chunks);
+    assert.ok(chunks.every((c) => c.total === chunked.chunks));
+    const data = Buffer.concat(
+      chunks.map((c) => Buffer.from(c.data, "base64")),
+    );
+    assert.equal(
+      createHash("sha256").update(data).digest("hex"),
+      chunked.sha256,
+    );
+    const result = JSON.parse(gunzipSync(data).toString());
+    assert.deepEqual(result.content, [{ type: "text", text }]);
+  });
+
+  it("fails results over the size limit with code too_large", async () => {
+    central.endpoints = [stdioEndpoint("too-large")];
+    startAgent({
+      results: { maxBytes: 2048, chunkBytes: 1024, compress: false },
+    });
+    await statusOf("too-large", "connected");
+
+    const reply = await callTool("too-large", "echo", {
+      text: "x".repeat(4096),
+    });
+    assert.equal(reply.code, "too_large");
+    assert.match(reply.error, /over the 2048-byte limit/);
+  });
+
+  it("chunks large resources and refuses those over the limit", async () => {
+    central.endpoints = [stdioEndpoint("blobs")];
+    startAgent({
+      results: { maxBytes: 64 * 1024, chunkBytes: 4096, compress: true },
+    });
+    await statusOf("blobs", "connected");
+
+    const readResource = (uri: string) => {
+      const callId = randomUUID();
+      central.emit("agent:resource_read", { callId, endpointId: "blobs", uri });
+      return central.waitFor("resourceResult", (p) => p.callId === callId);
+    };
+
+    const reply = await readResource("blob://20000");
+    assert.equal(reply.result, undefined);
+    const { chunked } = reply;
+    const chunks = central
+      .events("resourceResultChunk", (p) => p.callId === reply.callId)
+      .sort((a, b) => a.seq - b.seq);
+    assert.equal(chunks.length, chunked.chunks);
+    const data = Buffer.concat(
+      chunks.map((c) => Buffer.from(c.data, "base64")),
+    );
+    const json = chunked.encoding === "gzip" ? gunzipSync(data) : data;
+    const result = JSON.parse(json.toString());
+    assert.equal(Buffer.from(result.contents[0].blob, "base64").length, 20_000);
+
+    const tooLarge = await readResource("blob://100000");
+    assert.equal(tooLarge.code, "too_large");
+    assert.match(tooLarge.error, /over the 65536-byte limit/);
+  });
+
+  it("times out calls that run past their deadline", async () => {
+    central.endpoints = [stdioEndpoint("deadline")];
+    startAgent();
+    await statusOf("deadline", "connected");
+
+    const callId = randomUUID();
+    central.emit("agent:tool_call", {
+      callId,
+      endpointId: "deadline",
+      toolName: "slow",
+      args: { ms: 2_000 },
+      timeoutMs: 100,
+    });
+    const reply = await central.waitFor(
+      "toolResult",
+      (p) => p.callId === callId,
+    );
+    assert.equal(reply.code, "timeout");
+  });
+
+  it("ignores a call id that is already in flight", async () => {
+    central.endpoints = [stdioEndpoint("retried")];
+    startAgent();
+    await statusOf("retried", "connected");
+
+    const callId = randomUUID();
+    const call = { callId, endpointId: "retried", args: { ms: 2_000 } };
+    central.emit("agent:tool_call", { ...call, toolName: "slow" });
+    central.emit("agent:tool_call", { ...call, toolName: "echo" });
+    // The first call is still cancellable after the duplicate
+    central.emit("agent:tool_cancel", { callId, reason: "test" });
+    const reply = await central.waitFor(
+      "toolResult",
+      (p) => p.callId === callId,
+    );
+    assert.equal(reply.code, "cancelled");
+
+    await callTool("retried", "echo", { text: "after" });
+    assert.equal(
+      central.events("toolResult", (p) => p.callId === callId).length,
+      1,
+    );
+  });
+
+  it("calls tools on Streamable HTTP endpoints", async () => {
+    central.endpoints = [httpEndpoint("remote", http.url)];
+    startAgent();
+    await statusOf("remote", "connected");
+
+    const reply = await callTool("remote", "echo", { text: "over http" });
+    assert.deepEqual(reply.result.content, [
+      { type: "text", text: "over http" },
+    ]);
+  });
+});
+
+// ── Multiple servers ────────────────────────────────────────────────────────
+
+describe("multiple servers", () => {
+  let second: MockCentral;
+
+  beforeEach(async () => {
+    second = new MockCentral({ apiKey: API_KEY });
+    await second.start();
+  });
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = null;
+    await second.stop();
+  });
+
+  function startWithTwoServers(): void {
+    startAgent({
+      servers: [
+        {
+          name: "second",
+          serverUrl: second.url,
+          agentName: "test-agent",
+          apiKey: API_KEY,
+        },
+      ],
+    });
+  }
+
+  it("shares one client between identical endpoints of two servers", async () => {
+    central.endpoints = [stdioEndpoint("shared-a", { name: "Shared" })];
+    second.endpoints = [stdioEndpoint("shared-b", { name: "Shared" })];
+    startWithTwoServers();
+
+    await statusOf("shared-a", "connected");
+    await second.waitFor(
+      "statusUpdate",
+      (p) => p.endpointId === "shared-b" && p.status === "connected",
+    );
+
+    const first = await callTool("shared-a", "pid");
+    const callId = randomUUID();
+    second.emit("agent:tool_call", {
+      callId,
+      endpointId: "shared-b",
+      toolName: "pid",
+      args: {},
+    });
+    const other = await second.waitFor(
+      "toolResult",
+      (p) => p.callId === callId,
+    );
+    assert.deepEqual(other.result.content, first.result.content);
+    // Each result went back over the tunnel its call came from
+    assert.equal(central.events("toolResult").length, 1);
+    assert.equal(second.events("toolResult").length, 1);
+  });
+
+  it("keeps a shared client while another server still uses it", async () => {
+    central.endpoints = [stdioEndpoint("kept-a")];
+    second.endpoints = [stdioEndpoint("kept-b")];
+    startWithTwoServers();
+    await statusOf("kept-a", "connected");
+    await second.waitFor(
+      "statusUpdate",
+      (p) => p.endpointId === "kept-b" && p.status === "connected",
+    );
+
+    const mark = central.received.length;
+    central.emit("agent:endpoint_remove", { endpointId: "kept-a" });
+    await statusOf("kept-a", "disconnected", mark);
+
+    const callId = randomUUID();
+    second.emit("agent:tool_call", {
+      callId,
+      endpointId: "kept-b",
+      toolName: "echo",
+      args: { text: "still shared" },
+    });
+    const reply = await second.waitFor(
+      "toolResult",
+      (p) => p.callId === callId,
+    );
+    assert.deepEqual(reply.result.content, [
+      { type: "text", text: "still shared" },
+    ]);
+  });
+});
+
+// ── Protocol negotiation ────────────────────────────────────────────────────
+
+describe("protocol negotiation", () => {
+  let other: MockCentral;
+
+  afterEach(async () => {
+    await agent?.stop();
+    agent = null;
+    await other.stop();
+  });
+
+  it("falls back to legacy features with a server that predates negotiation", async () => {
+    other = new MockCentral({
+      apiKey: API_KEY,
+      capabilities: null,
+      endpoints: [stdioEndpoint("legacy")],
+    });
+    await other.start();
+    startAgent({
+      serverUrl: other.url,
+      results: { maxBytes: 1024 * 1024, chunkBytes: 1024, compress: true },
+    });
+
+    const join = await other.waitFor("join");
+    assert.equal(join.protocolVersion, PROTOCOL_VERSION);
+    assert.ok(join.capabilities.includes("chunking"));
+    assert.ok(!join.capabilities.includes("e2e"), "e2e is off");
+    await other.waitFor(
+      "statusUpdate",
+      (p) => p.endpointId === "legacy" && p.status === "connected",
+    );
+
+    // No chunking: the result goes out whole
+    const callId = randomUUID();
+    const text = "y".repeat(4096);
+    other.emit("agent:tool_call", {
+      callId,
+      endpointId: "legacy",
+      toolName: "echo",
+      args: { text },
+    });
+    const reply = await other.waitFor("toolResult", (p) => p.callId === callId);
+    assert.deepEqual(reply.result.content, [{ type: "text", text }]);
+    assert.equal(reply.deliveryId, undefined);
+    assert.equal(other.events("toolResultChunk").length, 0);
+
+    // Too big for one message: refused instead of dropping the tunnel
+    const largeId = randomUUID();
+    other.emit("agent:tool_call", {
+      callId: largeId,
+      endpointId: "legacy",
+      toolName: "echo",
+      args: { text: "z".repeat(1_100_000) },
+    });
+    const large = await other.waitFor(
+      "toolResult",
+      (p) => p.callId === largeId,
+    );
+    assert.equal(large.code, "too_large");
+
+    // Never acked, yet not redelivered after a rejoin
+    const mark = other.received.length;
+    other.dropConnection();
+    await other.waitFor("join", () => true, { since: mark });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    assert.equal(
+      other.events("toolResult", (p) => p.callId === callId).length,
+      1,
+    );
+    assert.equal(
+      other.events("toolResult", (p) => p.callId === largeId).length,
+      1,
+    );
+  });
+
+  it("stops for good when the server requires a newer agent", async () => {
+    other = new MockCentral({ apiKey: API_KEY, minAgentVersion: "999.0.0" });
+    await other.start();
+    const fatal = new Promise<Error>((resolve) => {
+      agent = new McpCentralAgent(testConfig({ serverUrl: other.url }), {
+        onFatal: resolve,
+      });
+    });
+    agent!.start();
+
+    const error = await fatal;
+    assert.match(error.message, /upgrade mcp-central-agent/);
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    assert.equal(other.connections, 1);
+  });
+});
+
+// ── End-to-end protection ───────────────────────────────────────────────────
+
+describe("e2e", () => {
+  const agentKeys = generateKeyPair();
+  const serverKeys = generateKeyPair();
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mcp-agent-e2e-"));
+    await writeFile(join(dir, "agent.pem"), agentKeys.privateKey);
+    await writeFile(join(dir, "server.pub"), serverKeys.publicKey);
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function e2eSettings(): Partial<AgentConfig> {
+    return {
+      serverPublicKeyFile: join(dir, "server.pub"),
+      e2e: {
+        enabled: true,
+        privateKeyFile: join(dir, "agent.pem"),
+        maxClockSkewMs: 60_000,
+      },
+    };
+  }
+
+  /** Signs server events as MCP Central does; tool calls sign themselves. */
+  function signEvent(event: string, payload: any): unknown {
+    if (event === "agent:tool_call") return payload;
+    const body = event === "agent:endpoints" ? { endpoints: payload } : payload;
+    const signature = signServerEvent(
+      event,
+      body,
+      "test-agent",
+      serverKeys.privateKey,
+    );
+    return { ...body, signature };
+  }
+
+  function startE2eAgent(): McpCentralAgent {
+    central.sign = signEvent;
+    return startAgent(e2eSettings());
+  }
+
+  /** Sends `payload` and opens the sealed reply it gets back. */
+  async function sealedReply(
+    payload: Record<string, any>,
+    event = "agent:tool_call",
+    reply = "toolResult",
+  ) {
+    const since = central.received.length;
+    central.emit(event, payload);
+    const sealed = await central.waitFor(
+      reply,
+      (p) => p.callId === payload.callId,
+      { since },
+    );
+    assert.equal(sealed.result, undefined);
+    return openSealedPayload(
+      payload.callId,
+      sealed.sealed,
+      serverKeys.privateKey,
+      agentKeys.publicKey,
+    ) as Record<string, any>;
+  }
+
+  it("runs signed calls and seals their results", async () => {
+    central.endpoints = [stdioEndpoint("sealed")];
+    startE2eAgent();
+    await statusOf("sealed", "connected");
+
+    const call = {
+      callId: randomUUID(),
+      endpointId: "sealed",
+      toolName: "echo",
+      args: { text: "secret" },
+    };
+    const signature = signToolCall(call, "test-agent", serverKeys.privateKey);
+    const opened = await sealedReply({ ...call, signature });
+    assert.deepEqual(opened.result.content, [{ type: "text", text: "secret" }]);
+
+    const replayed = await sealedReply({ ...call, signature });
+    assert.equal(replayed.code, "invalid_signature");
+    assert.match(replayed.error, /replayed/);
+  });
+
+  it("still rejects replays after a reload replaces the keys", async () => {
+    central.endpoints = [stdioEndpoint("sealed")];
+    const e2eAgent = startE2eAgent();
+    await statusOf("sealed", "connected");
+    const call = {
+      callId: randomUUID(),
+      endpointId: "sealed",
+      toolName: "echo",
+      args: { text: "once" },
+    };
+    const signature = signToolCall(call, "test-agent", serverKeys.privateKey);
+    const first = await sealedReply({ ...call, signature });
+    assert.ok(first.result);
+
+    const copy = join(dir, "server-copy.pub");
+    await writeFile(copy, serverKeys.publicKey);
+    const mark = central.received.length;
+    e2eAgent.applyConfig(
+      testConfig({ ...e2eSettings(), serverPublicKeyFile: copy }),
+    );
+    await central.waitFor("join", () => true, { since: mark });
+
+    const replayed = await sealedReply({ ...call, signature });
+    assert.match(replayed.error, /replayed/);
+  });
+
+  it("refuses a server that does not negotiate e2e", async () => {
+    const other = new MockCentral({
+      apiKey: API_KEY,
+      capabilities: TUNNEL_CAPABILITIES.filter((c) => c !== "e2e"),
+      endpoints: [stdioEndpoint("plain")],
+    });
+    await other.start();
+    try {
+      const fatal = new Promise<Error>((resolve) => {
+        agent = new McpCentralAgent(
+          testConfig({ ...e2eSettings(), serverUrl: other.url }),
+          { onFatal: resolve },
+        );
+      });
+      agent!.start();
+
+      const join = await other.waitFor("join");
+      assert.ok(join.capabilities.includes("e2e"));
+      const error = await fatal;
+      assert.match(error.message, /does not support it/);
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      assert.equal(other.connections, 1);
+      assert.equal(other.events("statusUpdate").length, 0);
+    } finally {
+      await agent?.stop();
+      agent = null;
+      await other.stop();
+    }
+  });
+
+  it("rejects unsigned, forged and stale calls", async () => {
+    central.endpoints = [stdioEndpoint("sealed")];
+    startE2eAgent();
+    await statusOf("sealed", "connected");
+    const call = () => ({
+      callId: randomUUID(),
+      endpointId: "sealed",
+      toolName: "echo",
+      args: { text: "x" },
+    });
+
+    const unsigned = await sealedReply(call());
+    assert.equal(unsigned.code, "invalid_signature");
+    assert.match(unsigned.error, /unsigned/);
+
+    const forgedCall = call();
+    const forged = await sealedReply({
+      ...forgedCall,
+      signature: signToolCall(forgedCall, "test-agent", agentKeys.privateKey),
+    });
+    assert.match(forged.error, /invalid tool call signature/);
+
+    const staleCall = call();
+    const stale = await sealedReply({
+      ...staleCall,
+      signature: signToolCall(
+        staleCall,
+        "test-agent",
+        serverKeys.privateKey,
+        Date.now() - 120_000,
+      ),
+    });
+    assert.match(stale.error, /expired/);
+  });
+
+  it("requires signed resource reads and seals their results", async () => {
+    central.endpoints = [stdioEndpoint("sealed")];
+    startE2eAgent();
+    await statusOf("sealed", "connected");
+    const read = () => ({
+      callId: randomUUID(),
+      endpointId: "sealed",
+      uri: "blob://16",
+    });
+
+    const signed = await sealedReply(
+      read(),
+      "agent:resource_read",
+      "resourceResult",
+    );
+    assert.equal(signed.result.contents[0].uri, "blob://16");
+
+    central.sign = null;
+    const unsigned = await sealedReply(
+      read(),
+      "agent:resource_read",
+      "resourceResult",
+    );
+    assert.equal(unsigned.code, "invalid_signature");
+    assert.match(unsigned.error, /unsigned/);
+  });
+
+  it("ignores unsigned and replayed endpoint pushes", async () => {
+    startE2eAgent();
+    await central.waitFor("join");
+
+    central.sign = null;
+    central.emit("agent:endpoint_add", { endpoint: stdioEndpoint("unsigned") });
+    const signed = signEvent("agent:endpoint_add", {
+      endpoint: stdioEndpoint("signed"),
+    });
+    central.emit("agent:endpoint_add", signed);
+    await statusOf("signed", "connected");
+
+    // Pushes are handled in order, so the first was refused by now
+    central.emit(
+      "agent:endpoint_remove",
+      signEvent("agent:endpoint_remove", { endpointId: "signed" }),
+    );
+    const since = central.received.length;
+    central.emit("agent:endpoint_add", signed);
+    central.emit(
+      "agent:endpoint_add",
+      signEvent("agent:endpoint_add", { endpoint: stdioEndpoint("last") }),
+    );
+    await statusOf("last", "connected", since);
+    assert.equal(
+      central.events("statusUpdate", (p) => p.endpointId === "unsigned").length,
+      0,
+    );
+    const replayed = central.received
+      .slice(since)
+      .filter(
+        (r) =>
+          r.event === "statusUpdate" &&
+          r.payload.endpointId === "signed" &&
+          r.payload.status !== "disconnected",
+      );
+    assert.deepEqual(replayed, []);
+  });
+});
+
+// ── OAuth endpoints ─────────────────────────────────────────────────────────
+
+describe("oauth", () => {
+  let dir: string;
+  let http: FakeHttpServer;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "mcp-agent-oauth-"));
+    http = await startHttpMcpServer({ bearerToken: "access-123" });
+  });
+
+  after(async () => {
+    await http.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reports needs_auth without tokens and connects once login stores them", async () => {
+    const tokenFile = join(dir, "tokens.json");
+    central.endpoints = [httpEndpoint("private", http.url, { oauth: {} })];
+    startAgent({ oauth: { tokenFile, callbackPort: 8976 } });
+
+    const needsAuth = await statusOf("private", "needs_auth");
+    assert.match(needsAuth.error, /mcp-central-agent login private/);
+
+    // What `login` leaves behind
+    await new OAuthTokenStore(tokenFile).update(http.url, () => ({
+      client: { client_id: "agent-client" },
+      tokens: { access_token: "access-123", token_type: "Bearer" },
+    }));
+    await statusOf("private", "connected");
+    const reply = await callTool("private", "echo", { text: "authorized" });
+    assert.deepEqual(reply.result.content, [
+      { type: "text", text: "authorized" },
+    ]);
+  });
+
+  it("retries a 401 from an endpoint that doesn't use OAuth", async () => {
+    const tokenFile = join(dir, "no-tokens.json");
+    central.endpoints = [httpEndpoint("keyed", http.url)];
+    startAgent({ oauth: { tokenFile, callbackPort: 8976 } });
+
+    const error = await statusOf("keyed", "error");
+    assert.doesNotMatch(error.error, /login/);
+    await statusOf("keyed", "connecting", central.received.length);
+    assert.equal(
+      central.events("statusUpdate", (p) => p.status === "needs_auth").length,
+      0,
+    );
+  });
+});
+
+// ── Health checks ───────────────────────────────────────────────────────────
+
+describe("health checks", () => {
+  it("doesn't count a call's own deadline against the endpoint", async () => {
+    central.endpoints = [stdioEndpoint("patient")];
+    startAgent({
+      healthCheck: {
+        enabled: true,
+        intervalMs: 60_000,
+        timeoutMs: 1_000,
+        failureThreshold: 2,
+        resetTimeoutMs: 300,
+      },
+    });
+    await statusOf("patient", "connected");
+
+    for (let i = 0; i < 3; i++) {
+      const callId = randomUUID();
+      central.emit("agent:tool_call", {
+        callId,
+        endpointId: "patient",
+        toolName: "slow",
+        args: { ms: 500 },
+        timeoutMs: 50,
+      });
+      const reply = await central.waitFor(
+        "toolResult",
+        (p) => p.callId === callId,
+      );
+      assert.equal(reply.code, "timeout");
+    }
+
+    const reply = await callTool("patient", "echo", { text: "still fine" });
+    assert.deepEqual(reply.result.content, [
+      { type: "text", text: "still fine" },
+    ]);
+    assert.deepEqual(
+      central.events("statusUpdate", (p) => p.status === "degraded"),
+      [],
+    );
+  });
+
+  it("fails calls fast while degraded and recovers through a probe", async () => {
+    central.endpoints = [stdioEndpoint("flaky")];
+    startAgent({
+      healthCheck: {
+        enabled: true,
+        intervalMs: 100,
+        timeoutMs: 100,
+        failureThreshold: 2,
+        resetTimeoutMs: 300,
+      },
+    });
+    await statusOf("flaky", "connected");
+
+    // Pings time out while the server is stuck
+    const mark = central.received.length;
+    central.emit("agent:tool_call", {
+      callId: randomUUID(),
+      endpointId: "flaky",
+      toolName: "block",
+      args: { ms: 1_500 },
+    });
+    const degraded = await statusOf("flaky", "degraded", mark);
+    assert.match(degraded.error, /2 consecutive failures, last: ping/);
+
+    const rejected = await callTool("flaky", "echo", { text: "x" });
+    assert.equal(rejected.code, "degraded");
+    assert.match(rejected.error, /flaky is degraded/);
+
+    await statusOf("flaky", "connected", mark);
+    const reply = await callTool("flaky", "echo", { text: "healthy" });
+    assert.deepEqual(reply.result.content, [{ type: "text", text: "healthy" }]);
+  });
+});
+
+// ── Config reload ───────────────────────────────────────────────────────────
+
+describe("config reload", () => {
+  /** Endpoints in an `AgentConfig` have their schema defaults filled in. */
+  const localEndpoint = (id: string, name = id) => ({
+    ...stdioEndpoint(id, { name }),
+    cwd: null,
+  });
+
+  it("reconnects the tunnel on new server settings and keeps endpoints running", async () => {
+    const config = testConfig({ endpoints: [localEndpoint("steady")] });
+    agent = new McpCentralAgent(config);
+    agent.start();
+    await statusOf("steady", "connected");
+    const before = await callTool("steady", "pid");
+
+    const mark = central.received.length;
+    agent.applyConfig({ ...config, agentName: "renamed-agent" });
+    await central.waitFor("join", () => true, { since: mark });
+    assert.equal(central.connections, 2);
+
+    const after = await callTool("steady", "pid");
+    assert.deepEqual(after.result.content, before.result.content);
+  });
+
+  it("starts added local endpoints and stops removed ones", async () => {
+    const config = testConfig({ endpoints: [localEndpoint("old-local")] });
+    agent = new McpCentralAgent(config);
+    agent.start();
+    await statusOf("old-local", "connected");
+
+    const mark = central.received.length;
+    agent.applyConfig({
+      ...config,
+      endpoints: [localEndpoint("new-local", "New")],
+    });
+    await statusOf("old-local", "disconnected", mark);
+    await statusOf("new-local", "connected", mark);
+    const announced = await central.waitFor(
+      "endpointsAnnounce",
+      (p) => p.endpoints.some((e: { id: string }) => e.id === "new-local"),
+      { since: mark },
+    );
+    assert.equal(announced.endpoints.length, 1);
+  });
+
+  it("refuses confirm rules when stdin carries MCP", () => {
+    const policy: AgentConfig["policy"] = {
+      defaultAction: "allow",
+      confirmTimeoutMs: 60_000,
+      rules: [{ namespace: "*", tools: ["*"], action: "confirm", args: {} }],
+    };
+    assert.throws(
+      () => new McpCentralAgent(testConfig({ policy }), { stdio: true }),
+      /'confirm' can't be answered with --stdio/,
+    );
+
+    const config = testConfig();
+    const stdioAgent = new McpCentralAgent(config, { stdio: true });
+    agent = stdioAgent;
+    assert.throws(
+      () => stdioAgent.applyConfig({ ...config, policy }),
+      /'confirm' can't be answered with --stdio/,
+    );
+  });
+});
+
+// ── Supervision & reconnects ────────────────────────────────────────────────
+
+describe("reconnects", () => {
+  it("restarts a crashed stdio server and reports the exit", async () => {
+    central.endpoints = [stdioEndpoint("crashy")];
+    startAgent();
+    await statusOf("crashy", "connected");
+
+    const mark = central.received.length;
+    central.emit("agent:tool_call", {
+      callId: randomUUID(),
+      endpointId: "crashy",
+      toolName: "crash",
+      args: {},
+    });
+    const error = await statusOf("crashy", "error", mark);
+    assert.match(error.error, /exited with code 1/);
+    assert.match(error.error, /crashing on request/);
+
+    await statusOf("crashy", "connected", mark);
+    const reply = await callTool("crashy", "echo", { text: "back" });
+    assert.deepEqual(reply.result.content, [{ type: "text", text: "back" }]);
+  });
+
+  it("rejoins after a tunnel drop and redelivers buffered results", async () => {
+    central.endpoints = [stdioEndpoint("tunnel")];
+    startAgent();
+    await statusOf("tunnel", "connected");
+
+    // Start a call, then drop the tunnel before it finishes
+    const callId = randomUUID();
+    central.emit("agent:tool_call", {
+      callId,
+      endpointId: "tunnel",
+      toolName: "slow",
+      args: { ms: 300 },
+    });
+    central.dropConnection();
+
+    const reply = await central.waitFor(
+      "toolResult",
+      (p) => p.callId === callId,
+    );
+    assert.deepEqual(reply.result.content, [
+      { type: "text", text: "slept 300ms" },
+    ]);
+    assert.ok(reply.deliveryId, "results carry a deliveryId");
+    assert.equal(central.connections, 2);
+    assert.equal(central.received.filter((r) => r.event === "join").length, 2);
+  });
+
+  it("is rejected with a wrong API key", async () => {
+    startAgent({ apiKey: "agent_wrong_key_000" });
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    assert.equal(central.connections, 0);
+  });
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { loadConfig } from "../src/config.js";
+
+// ── Harness ─────────────────────────────────────────────────────────────────
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), "mcp-agent-config-"));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function writeJson(name: string, value: unknown): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, JSON.stringify(value));
+  return path;
+}
+
+const FILE_CONFIG = {
+  serverUrl: "https://file.example.com",
+  agentName: "from-file",
+  apiKey: "agent_file_key_123",
+  metrics: { enabled: true, port: 9000 },
+};
+
+// ── Layering ────────────────────────────────────────────────────────────────
+
+describe("config layers", () => {
+  it("applies env vars over the file and overrides over env vars", async () => {
+    const path = await writeJson("layers.json", FILE_CONFIG);
+    const config = await loadConfig(path, {
+      env: {
+        MCP_AGENT_AGENT_NAME: "from-env",
+        MCP_AGENT_METRICS__PORT: "9100",
+        MCP_AGENT_TOOL_CALL_TIMEOUT_MS: "5000",
+        MCP_AGENT_SECRETS_PASSPHRASE: "not a config field",
+      },
+      overrides: { "metrics.port": "9200" },
+    });
+    assert.equal(config.serverUrl, "https://file.example.com");
+    assert.equal(config.agentName, "from-env");
+    assert.equal(config.toolCallTimeoutMs, 5000);
+    assert.equal(config.metrics?.port, 9200);
+    assert.equal(config.metrics?.enabled, true);
+  });
+
+  it("needs no file when env vars carry the config", async () => {
+    const cwd = process.cwd();
+    process.chdir(dir);
+    try {
+      const config = await loadConfig(undefined, {
+        env: {
+          MCP_AGENT_SERVER_URL: "https://env.example.com",
+          MCP_AGENT_AGENT_NAME: "from-env",
+          MCP_AGENT_API_KEY: "agent_env_key_123",
+        },
+      });
+      assert.equal(config.serverUrl, "https://env.example.com");
+    } finally {
+      process.chdir(cwd);
+    }
+    await assert.rejects(
+      loadConfig(join(dir, "missing.json"), {
+        env: { MCP_AGENT_AGENT_NAME: "from-env" },
+      }),
+      /Config file not found/,
+    );
+  });
+
+  it("rejects unknown override fields and non-JSON values", async () => {
+    const path = await writeJson("unknown.json", FILE_CONFIG);
+    await assert.rejects(
+      loadConfig(path, { env: {}, overrides: { "metrics.prot": "1" } }),
+      /unknown config field 'metrics.prot'/,
+    );
+    await assert.rejects(
+      loadConfig(path, { env: { MCP_AGENT_METRICS__PORT: "high" } }),
+      /MCP_AGENT_METRICS__PORT: 'metrics.port' expects a JSON value/,
+    );
+  });
+});
+
+// ── apiKeyFile ──────────────────────────────────────────────────────────────
+
+describe("apiKeyFile", () => {
+  it("reads the key from a file, at top level and per server", async () => {
+    const keyFile = join(dir, "key.txt");
+    await writeFile(keyFile, "agent_key_from_file\n");
+    const { apiKey: _, ...withoutKey } = FILE_CONFIG;
+    const path = await writeJson("key-file.json", {
+      ...withoutKey,
+      apiKeyFile: keyFile,
+      servers: [
+        {
+          name: "other",
+          serverUrl: "https://other.example.com",
+          agentName: "other",
+          apiKeyFile: keyFile,
+        },
+      ],
+    });
+    const config = await loadConfig(path, { env: {} });
+    assert.equal(config.apiKey, "agent_key_from_file");
+    assert.equal(config.servers?.[0].apiKey, "agent_key_from_file");
+    assert.equal(config.apiKeyFile, undefined);
+  });
+
+  it("lets a key from a higher layer replace the file's key file", async () => {
+    const path = await writeJson("key-override.json", {
+      ...FILE_CONFIG,
+      apiKey: undefined,
+      apiKeyFile: join(dir, "does-not-exist"),
+    });
+    const config = await loadConfig(path, {
+      env: { MCP_AGENT_API_KEY: "agent_env_key_456" },
+    });
+    assert.equal(config.apiKey, "agent_env_key_456");
+  });
+});
@@ -0,0 +1,22 @@
+// Fake stdio MCP server spawned by the integration tests.
+//
+//   node --import tsx stdio-server.ts [--extra-tool <name>]
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { registerFakeTools } from "../helpers/fake-tools.js";
+
+const server = new McpServer({ name: "fake-stdio", version: "1.0.0" });
+registerFakeTools(server, {
+  extraTool: argValue("--extra-tool"),
+  crash: () => {
+    console.error("fake-stdio: crashing on request");
+    process.exit(1);
+  },
+});
+await server.connect(new StdioServerTransport());
+console.error(`fake-stdio: ready (pid ${process.pid})`);
+
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
@@ -0,0 +1,111 @@
+import { createServer, type Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import { fileURLToPath } from "url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { EndpointConfig } from "../../src/local-client.js";
+import { registerFakeTools, type FakeToolOptions } from "./fake-tools.js";
+
+// ── Fake stdio server ───────────────────────────────────────────────────────
+
+const STDIO_SERVER = fileURLToPath(
+  new URL("../fixtures/stdio-server.ts", import.meta.url),
+);
+
+/** Endpoint config that spawns `fixtures/stdio-server.ts`. */
+export function stdioEndpoint(
+  id: string,
+  overrides: Partial<EndpointConfig> & { extraTool?: string } = {},
+): EndpointConfig {
+  const { extraTool, ...config } = overrides;
+  return {
+    id,
+    name: id,
+    namespace: id,
+    transport: "stdio",
+    url: null,
+    command: process.execPath,
+    args: [
+      "--import",
+      "tsx",
+      STDIO_SERVER,
+      ...(extraTool ? ["--extra-tool", extraTool] : []),
+    ],
+    env: {},
+    headers: {},
+    isEnabled: true,
+    ...config,
+  };
+}
+
+// ── Fake Streamable HTTP server ─────────────────────────────────────────────
+
+export interface FakeHttpServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+export interface FakeHttpOptions extends FakeToolOptions {
+  /** Answer 401 to requests without `Authorization: Bearer <token>` */
+  bearerToken?: string;
+}
+
+/** Stateless Streamable HTTP MCP server serving the fake tools on `/mcp`. */
+export async function startHttpMcpServer(
+  options: FakeHttpOptions = {},
+): Promise<FakeHttpServer> {
+  const http: HttpServer = createServer(async (req, res) => {
+    if (
+      options.bearerToken &&
+      req.headers.authorization !== `Bearer ${options.bearerToken}`
+    ) {
+      // No OAuth metadata — enough for the client to give up and ask for login
+      res.writeHead(req.url?.startsWith("/.well-known/") ? 404 : 401).end();
+      return;
+    }
+    const server = new McpServer({ name: "fake-http", version: "1.0.0" });
+    registerFakeTools(server, options);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+    });
+    res.on("close", () => {
+      transport.close().catch(() => {});
+      server.close().catch(() => {});
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  });
+  await new Promise<void>((resolve) =>
+    http.listen(0, "127.0.0.1", () => resolve()),
+  );
+  const { port } = http.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    close: async () => {
+      http.closeAllConnections();
+      await new Promise<void>((resolve) => http.close(() => resolve()));
+    },
+  };
+}
+
+/** Endpoint config pointing at a fake HTTP server. */
+export function httpEndpoint(
+  id: string,
+  url: string,
+  overrides: Partial<EndpointConfig> = {},
+): EndpointConfig {
+  return {
+    id,
+    name: id,
+    namespace: id,
+    transport: "streamable-http",
+    url,
+    command: null,
+    args: [],
+    env: {},
+    headers: {},
+    isEnabled: true,
+    ...overrides,
+  };
+}
@@ -0,0 +1,80 @@
+import { randomBytes } from "crypto";
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+
+export interface FakeToolOptions {
+  /** Registers one more no-op tool, to make catalogs distinguishable */
+  extraTool?: string;
+  /** Behaviour of the `crash` tool */
+  crash?: () => void;
+}
+
+/**
+ * Tools shared by the fake stdio and HTTP servers:
+ * `echo` returns its `text`, `fail` returns an `isError` result, `throw`
+ * fails the request, `slow` sleeps for `ms`, `block` busy-waits for `ms` so
+ * the server answers nothing meanwhile (pings included), `pid` returns the
+ * server's process id and `crash` kills the server. The `blob://{bytes}`
+ * resource is that many random bytes.
+ */
+export function registerFakeTools(
+  server: McpServer,
+  options: FakeToolOptions = {},
+): void {
+  server.tool("echo", { text: z.string() }, async ({ text }) => ({
+    content: [{ type: "text", text }],
+  }));
+
+  server.tool("fail", {}, async () => ({
+    content: [{ type: "text", text: "tool failed on purpose" }],
+    isError: true,
+  }));
+
+  server.tool("throw", {}, async () => {
+    throw new Error("tool threw on purpose");
+  });
+
+  server.tool("slow", { ms: z.number() }, async ({ ms }) => {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    return { content: [{ type: "text", text: `slept ${ms}ms` }] };
+  });
+
+  server.tool("block", { ms: z.number() }, async ({ ms }) => {
+    const until = Date.now() + ms;
+    while (Date.now() < until);
+    return { content: [{ type: "text", text: `blocked ${ms}ms` }] };
+  });
+
+  server.tool("pid", {}, async () => ({
+    content: [{ type: "text", text: String(process.pid) }],
+  }));
+
+  server.resource(
+    "blob",
+    new ResourceTemplate("blob://{bytes}", { list: undefined }),
+    async (uri, { bytes }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/octet-stream",
+          blob: randomBytes(Number(bytes)).toString("base64"),
+        },
+      ],
+    }),
+  );
+
+  if (options.crash) {
+    const crash = options.crash;
+    server.tool("crash", {}, async () => {
+      crash();
+      return { content: [] };
+    });
+  }
+
+  if (options.extraTool) {
+    server.tool(options.extraTool, {}, async () => ({ content: [] }));
+  }
+}
@@ -0,0 +1,199 @@
+import { createServer, type Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import { Server, type Socket } from "socket.io";
+import type { EndpointConfig } from "../../src/local-client.js";
+import { PROTOCOL_VERSION, TUNNEL_CAPABILITIES } from "../../src/protocol.js";
+
+// ── MockCentral ─────────────────────────────────────────────────────────────
+
+export interface ReceivedEvent {
+  event: string;
+  payload: any;
+  /** Index of the agent connection that sent it (0 for the first) */
+  connection: number;
+}
+
+export interface MockCentralOptions {
+  /** Only this key is accepted in the handshake (default: any key) */
+  apiKey?: string;
+  /** Sent as `agent:endpoints` after each `join` */
+  endpoints?: EndpointConfig[];
+  /** Advertised in the `join` ack (default: all); null acks like a server from before negotiation */
+  capabilities?: string[] | null;
+  /** Sent in the `join` ack as the oldest agent version accepted */
+  minAgentVersion?: string;
+}
+
+/**
+ * In-process stand-in for MCP Central's `/agent-tunnel` namespace. It answers
+ * `join` with the configured endpoint list, acks every reliable message
+ * (unless it plays a server from before negotiation), records everything
+ * the agent emits and lets tests push server events.
+ */
+export class MockCentral {
+  endpoints: EndpointConfig[];
+  /** Every event received from the agent, in arrival order */
+  readonly received: ReceivedEvent[] = [];
+
+  private readonly _apiKey: string | undefined;
+  private readonly _capabilities: string[] | null;
+  private readonly _minAgentVersion: string | undefined;
+  private readonly _http: HttpServer = createServer();
+  private readonly _io: Server;
+  private readonly _waiters = new Set<() => void>();
+  private _socket: Socket | null = null;
+  private _connections = 0;
+  /** When false, reliable messages are received but not acked */
+  ackDeliveries = true;
+  /** Applied to every server → agent event before it is sent, e.g. to sign it */
+  sign: ((event: string, payload: unknown) => unknown) | null = null;
+
+  constructor(options: MockCentralOptions = {}) {
+    this._apiKey = options.apiKey;
+    this.endpoints = options.endpoints ?? [];
+    this._capabilities =
+      options.capabilities === undefined
+        ? [...TUNNEL_CAPABILITIES]
+        : options.capabilities;
+    this._minAgentVersion = options.minAgentVersion;
+    this._io = new Server(this._http);
+
+    const tunnel = this._io.of("/agent-tunnel");
+    tunnel.use((socket, next) => {
+      const { apiKey } = socket.handshake.auth as { apiKey?: string };
+      if (this._apiKey && apiKey !== this._apiKey) {
+        next(new Error("Unauthorized"));
+        return;
+      }
+      next();
+    });
+    tunnel.on("connection", (socket) => this._onConnection(socket));
+  }
+
+  /** Base URL to use as `serverUrl`. */
+  get url(): string {
+    const { port } = this._http.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** Number of agent connections accepted so far. */
+  get connections(): number {
+    return this._connections;
+  }
+
+  get connected(): boolean {
+    return this._socket?.connected ?? false;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this._http.listen(0, "127.0.0.1", () => resolve()),
+    );
+  }
+
+  async stop(): Promise<void> {
+    this._io.disconnectSockets(true);
+    await new Promise<void>((resolve) => this._io.close(() => resolve()));
+  }
+
+  /** Pushes a server → agent event on the current connection. */
+  emit(event: string, payload: unknown): void {
+    if (!this._socket) throw new Error("No agent connected");
+    this._socket.emit(event, this._signed(event, payload));
+  }
+
+  /**
+   * Drops the current connection at the transport level, like a network
+   * failure — the agent is expected to reconnect on its own.
+   */
+  dropConnection(): void {
+    this._socket?.conn.close();
+  }
+
+  /** Events of a kind received so far, optionally filtered. */
+  events(event: string, match: (payload: any) => boolean = () => true): any[] {
+    return this.received
+      .filter((r) => r.event === event && match(r.payload))
+      .map((r) => r.payload);
+  }
+
+  /**
+   * Resolves with the first payload of `event` matching `match` received
+   * after the `since` index of `received` (default: from the start).
+   */
+  waitFor(
+    event: string,
+    match: (payload: any) => boolean = () => true,
+    options: { since?: number; timeoutMs?: number } = {},
+  ): Promise<any> {
+    const { since = 0, timeoutMs = 10_000 } = options;
+    const find = () =>
+      this.received
+        .slice(since)
+        .find((r) => r.event === event && match(r.payload));
+
+    const found = find();
+    if (found) return Promise.resolve(found.payload);
+
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const hit = find();
+        if (!hit) return;
+        clearTimeout(timer);
+        this._waiters.delete(check);
+        resolve(hit.payload);
+      };
+      const timer = setTimeout(() => {
+        this._waiters.delete(check);
+        reject(new Error(`Timed out waiting for '${event}'`));
+      }, timeoutMs);
+      this._waiters.add(check);
+    });
+  }
+
+  private _signed(event: string, payload: unknown): unknown {
+    return this.sign ? this.sign(event, payload) : payload;
+  }
+
+  private _onConnection(socket: Socket): void {
+    const connection = this._connections++;
+    this._socket = socket;
+
+    socket.on("join", (_data: unknown, ack?: (res: unknown) => void) => {
+      if (this._capabilities === null) {
+        socket.emit(
+          "agent:endpoints",
+          this._signed("agent:endpoints", this.endpoints),
+        );
+        ack?.({ status: "ok" });
+        return;
+      }
+      ack?.({
+        status: "ok",
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: this._capabilities,
+        minAgentVersion: this._minAgentVersion,
+      });
+      socket.emit(
+        "agent:endpoints",
+        this._signed("agent:endpoints", this.endpoints),
+      );
+    });
+
+    socket.onAny((event: string, ...args: unknown[]) => {
+      const last = args[args.length - 1];
+      const ack = typeof last === "function" ? last : null;
+      // Servers from before negotiation don't know about deliveries
+      if (
+        event !== "join" &&
+        ack &&
+        this.ackDeliveries &&
+        this._capabilities !== null
+      ) {
+        (ack as (res: unknown) => void)({ status: "ok" });
+      }
+      this.received.push({ event, payload: args[0], connection });
+      for (const waiter of [...this._waiters]) waiter();
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import {
+  configureLogging,
+  Logger,
+  registerSecret,
+  registerSecrets,
+} from "../src/logger.js";
+import { stdioEndpoint } from "./helpers/fake-servers.js";
+
+// ── Harness ─────────────────────────────────────────────────────────────────
+
+let lines: string[];
+
+beforeEach(() => {
+  lines = [];
+  for (const method of ["log", "warn", "error"] as const) {
+    mock.method(console, method, (line: string) => lines.push(line));
+  }
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  configureLogging({ level: "info", format: "pretty" });
+});
+
+// ── Levels & formats ────────────────────────────────────────────────────────
+
+describe("logger", () => {
+  it("drops lines below the configured level", () => {
+    configureLogging({ level: "warn" });
+    const log = new Logger("Test");
+    log.info("hidden");
+    log.warn("shown");
+    assert.equal(lines.length, 1);
+    assert.match(lines[0], /WARN {2}\[Test\] shown/);
+  });
+
+  it("writes one JSON object per line with context fields", () => {
+    configureLogging({ format: "json" });
+    new Logger("Test", { endpoint: "alpha" }).error("boom", {
+      error: new Error("went wrong"),
+    });
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.level, "error");
+    assert.equal(entry.component, "Test");
+    assert.equal(entry.msg, "boom");
+    assert.equal(entry.endpoint, "alpha");
+    assert.equal(entry.error, "went wrong");
+  });
+});
+
+// ── Redaction ───────────────────────────────────────────────────────────────
+
+describe("redaction", () => {
+  it("hides credential fields and endpoint env and header values", () => {
+    configureLogging({ format: "json" });
+    const endpoint = stdioEndpoint("alpha", {
+      env: { DB_PASSWORD: "hunter2-db" },
+      headers: { "X-Custom": "custom-value" },
+    });
+    new Logger("Test").info("config", { endpoint, apiKey: "agent_abc" });
+
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.apiKey, "[REDACTED]");
+    assert.deepEqual(entry.endpoint.env, { DB_PASSWORD: "[REDACTED]" });
+    assert.deepEqual(entry.endpoint.headers, { "X-Custom": "[REDACTED]" });
+    assert.equal(entry.endpoint.id, "alpha");
+  });
+
+  it("scrubs registered secrets from messages and fields", () => {
+    registerSecret("agent_registered_key_1");
+    registerSecrets({ TOKEN: "ghp_resolved_token" });
+    new Logger("Test").warn("rejected agent_registered_key_1", {
+      detail: "Authorization: Bearer ghp_resolved_token",
+    });
+
+    assert.doesNotMatch(lines[0], /agent_registered_key_1|ghp_resolved_token/);
+    assert.match(lines[0], /rejected \[REDACTED\]/);
+  });
+});